@@ -1,38 +1,205 @@
 "use client";
 
+import KanbanBoard from "@/components/KanbanBoard";
+import TagManager from "@/components/TagManager";
 import TaskForm from "@/components/TaskForm";
 import TaskList from "@/components/TaskList";
+import TimeReport from "@/components/TimeReport";
+import TrashAndArchive from "@/components/TrashAndArchive";
 import VoiceIndicator from "@/components/VoiceIndicator";
+import VoiceSettings from "@/components/VoiceSettings";
 import VoiceTaskCreator from "@/components/VoiceTaskCreator";
-import { NotificationManager, ReminderManager } from "@/lib/reminders";
-import { createTask, toggleTaskCompletion, updateTask } from "@/lib/utils";
-import { VoiceManager, voiceCommands } from "@/lib/voice";
-import { Task, TaskFormData } from "@/types/task";
+import { logActivity, logChanges, logChangesAcross } from "@/lib/activity";
+import {
+  addBlocker,
+  dependentsFreedBy,
+  findDependencyCycle,
+  removeBlocker,
+  removeFromDependencies,
+  syncBlockedStatus,
+  unlockDependents,
+} from "@/lib/dependencies";
+import { parseConfirmation, parseIntent } from "@/lib/intents";
+import { normalizeNumbers } from "@/lib/numbers";
+import { OrderPosition, reorderTask } from "@/lib/ordering";
+import { spawnNextOccurrence } from "@/lib/recurrence";
+import {
+  NotificationManager,
+  ReminderManager,
+  ReminderRequest,
+  formatReminderTime,
+  reminderTimeFor,
+} from "@/lib/reminders";
+import {
+  joinAlternatives,
+  resolveChoice,
+  resolveTask,
+} from "@/lib/task-matching";
+import {
+  answerBlockers,
+  answerSubtaskProgress,
+  answerTimeSpent,
+  answerTaskQuery,
+  describeSubtaskProgress,
+  describeTaskListView,
+} from "@/lib/task-queries";
+import {
+  Tag,
+  TagRegistry,
+  mergeTags,
+  normalizeTag,
+  retagTasks,
+} from "@/lib/tags";
+import {
+  TemporalExpression,
+  parseTemporal,
+  toLocalDateString,
+} from "@/lib/temporal";
+import {
+  ARCHIVE_KEY,
+  archiveTask,
+  defaultTrashSettings,
+  expiredTrash,
+  loadStoredTasks,
+  loadTrashSettings,
+  moveToTrash,
+  restoreFromTrash,
+  saveTrashSettings,
+  TRASH_KEY,
+  TrashSettings,
+  unarchiveTask,
+} from "@/lib/trash";
+import {
+  describeDuration,
+  isTimerRunning,
+  runningEntry,
+  runningTimers,
+  startTimer,
+  stopTimer,
+  trackedMs,
+} from "@/lib/time-tracking";
+import {
+  addSubtask,
+  applyTaskListView,
+  createTask,
+  defaultTaskListView,
+  reviveTask,
+  toggleSubtask,
+  toggleTaskCompletion,
+  updateTask,
+} from "@/lib/utils";
+import {
+  VoiceConfig,
+  VoiceManager,
+  defaultVoiceConfig,
+  describeTaskForSpeech,
+  formatSpokenDate,
+  joinSpoken,
+  loadVoiceConfig,
+  saveVoiceConfig,
+} from "@/lib/voice";
+import {
+  playAudio,
+  VoiceMemoRecording,
+  VoiceMemoStore,
+} from "@/lib/voice-memos";
+import { WakeWordScore } from "@/lib/wake-word";
+import {
+  DEFAULT_COLUMNS,
+  WorkflowBoard,
+  WorkflowColumn,
+  moveTasksOutOf,
+  resolveColumn,
+  setTaskStatus,
+  taskStatus,
+} from "@/lib/workflow";
+import {
+  ActivitySource,
+  Task,
+  TaskFormData,
+  TaskListView,
+  TaskStatus,
+} from "@/types/task";
 import { AnimatePresence, motion } from "framer-motion";
 import { useEffect, useRef, useState } from "react";
 
+// A question the assistant asked and is waiting on; the next utterance
+// answers it instead of being parsed as a new command
+type PendingVoicePrompt =
+  | { kind: "confirmDelete"; task: Task }
+  | { kind: "reminderTime"; task: Task }
+  | {
+      kind: "chooseTask";
+      candidates: Task[];
+      onChosen: (task: Task) => void;
+    };
+
 export default function Home() {
   const [tasks, setTasks] = useState<Task[]>([]);
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | undefined>(undefined);
   const [isVoiceListening, setIsVoiceListening] = useState(false);
   const [isVoiceTaskCreatorOpen, setIsVoiceTaskCreatorOpen] = useState(false);
+  const [voiceTaskDraft, setVoiceTaskDraft] = useState<
+    Partial<TaskFormData> | undefined
+  >(undefined);
   const [isWaitingForWakeWord, setIsWaitingForWakeWord] = useState(false);
   const [voiceStatus, setVoiceStatus] = useState<string>(
     "Ready for 'Hi Voice'"
   );
+  const [voiceConfig, setVoiceConfig] =
+    useState<VoiceConfig>(defaultVoiceConfig);
+  const [isVoiceSettingsOpen, setIsVoiceSettingsOpen] = useState(false);
+  const [wakeWordScores, setWakeWordScores] = useState<WakeWordScore[]>([]);
+  const [taskListView, setTaskListView] =
+    useState<TaskListView>(defaultTaskListView);
+  const [tagList, setTagList] = useState<Tag[]>([]);
+  const [isTagManagerOpen, setIsTagManagerOpen] = useState(false);
+  const [isTimeReportOpen, setIsTimeReportOpen] = useState(false);
+  // Kept apart from tasks, so nothing else sees them (see lib/trash)
+  const [trash, setTrash] = useState<Task[]>([]);
+  const [archive, setArchive] = useState<Task[]>([]);
+  const [trashSettings, setTrashSettings] =
+    useState<TrashSettings>(defaultTrashSettings);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [columns, setColumns] = useState<WorkflowColumn[]>(DEFAULT_COLUMNS);
+  const [layout, setLayout] = useState<"list" | "board">("list");
 
   // Voice and reminder managers
   const voiceManagerRef = useRef<VoiceManager | null>(null);
   const reminderManagerRef = useRef<ReminderManager | null>(null);
   const notificationManagerRef = useRef<NotificationManager | null>(null);
+  const tagRegistryRef = useRef<TagRegistry | null>(null);
+  const workflowBoardRef = useRef<WorkflowBoard | null>(null);
+  const voiceMemoStoreRef = useRef<VoiceMemoStore | null>(null);
+  // Set while a memo recording has wake word listening paused
+  const memoPausedWakeWordRef = useRef(false);
+  const pendingPromptRef = useRef<PendingVoicePrompt | null>(null);
+  // The task talked about last, for "tag it with ..."
+  const lastTaskIdRef = useRef<string | null>(null);
+  // Reminders from a create command that still needs its title asked
+  const draftRemindersRef = useRef<ReminderRequest[]>([]);
+  // Always points at the latest handler so voice callbacks see current tasks
+  const voiceCommandHandlerRef = useRef<(transcript: string) => void>(
+    () => {}
+  );
 
   // Initialize voice and reminder systems
   useEffect(() => {
     if (typeof window !== "undefined") {
-      voiceManagerRef.current = new VoiceManager();
+      const savedVoiceConfig = loadVoiceConfig();
+      setVoiceConfig(savedVoiceConfig);
+
+      voiceManagerRef.current = new VoiceManager(savedVoiceConfig);
       reminderManagerRef.current = new ReminderManager();
       notificationManagerRef.current = new NotificationManager();
+      tagRegistryRef.current = new TagRegistry();
+      setTagList(tagRegistryRef.current.getTags());
+      workflowBoardRef.current = new WorkflowBoard();
+      setColumns(workflowBoardRef.current.getColumns());
+      if (VoiceMemoStore.isSupported()) {
+        voiceMemoStoreRef.current = new VoiceMemoStore();
+      }
 
       const voiceManager = voiceManagerRef.current;
       const reminderManager = reminderManagerRef.current;
@@ -45,20 +212,32 @@ export default function Home() {
         handleVoiceActivation();
       });
 
+      // Keep the latest detection scores so sensitivity can be tuned
+      voiceManager.onWakeWordScore((score) => {
+        setWakeWordScores((prev) => [score, ...prev].slice(0, 5));
+      });
+
       // Set up listening state changes
       voiceManager.onListeningChange((listening) => {
         setIsVoiceListening(listening);
         if (listening && isWaitingForWakeWord) {
-          setVoiceStatus("Listening for 'Hi Voice'...");
+          setVoiceStatus(`Listening for '${getWakePhrase()}'...`);
         }
       });
 
       // Set up voice command processing
-      voiceManager.onSpeech(handleVoiceCommand);
+      voiceManager.onSpeech((transcript) =>
+        voiceCommandHandlerRef.current(transcript)
+      );
 
       // Set up reminder callbacks
       reminderManager.onReminder((reminder, task) => {
         const message = `Reminder: ${task.title}`;
+        setTasks((prev) =>
+          prev.map((t) =>
+            t.id === task.id ? logActivity(t, "reminder", "system") : t
+          )
+        );
 
         if (reminder.type === "notification" || reminder.type === "both") {
           notificationManager.showNotification("Task Reminder", message, () => {
@@ -88,18 +267,35 @@ export default function Home() {
     const savedTasks = localStorage.getItem("voice-task-manager-tasks");
     if (savedTasks) {
       try {
-        const parsedTasks = JSON.parse(savedTasks);
-        const tasksWithDates = parsedTasks.map((task: any) => ({
-          ...task,
-          createdAt: new Date(task.createdAt),
-          updatedAt: new Date(task.updatedAt),
-          dueDate: task.dueDate ? new Date(task.dueDate) : undefined,
-        }));
-        setTasks(tasksWithDates);
+        const parsedTasks: Task[] = JSON.parse(savedTasks);
+        setTasks(parsedTasks.map(reviveTask));
       } catch (error) {
         console.error("Error loading tasks from localStorage:", error);
       }
     }
+
+    setArchive(loadStoredTasks(ARCHIVE_KEY));
+
+    // Trash past its retention period is deleted for good
+    const settings = loadTrashSettings();
+    setTrashSettings(settings);
+    const trashed = loadStoredTasks(TRASH_KEY);
+    const expired = expiredTrash(trashed, settings);
+    setTrash(trashed.filter((task) => !expired.includes(task)));
+    if (expired.length > 0) {
+      setTasks((prev) =>
+        expired.reduce(
+          (rest, task) => removeFromDependencies(rest, task.id),
+          prev
+        )
+      );
+      expired.forEach((task) => {
+        reminderManagerRef.current?.removeRemindersForTask(task.id);
+        voiceMemoStoreRef.current?.delete(task.id).catch((error) => {
+          console.error("Error deleting voice memo:", error);
+        });
+      });
+    }
   }, []);
 
   // Save tasks to localStorage whenever tasks change
@@ -107,19 +303,47 @@ export default function Home() {
     localStorage.setItem("voice-task-manager-tasks", JSON.stringify(tasks));
   }, [tasks]);
 
+  useEffect(() => {
+    localStorage.setItem(TRASH_KEY, JSON.stringify(trash));
+  }, [trash]);
+
+  useEffect(() => {
+    localStorage.setItem(ARCHIVE_KEY, JSON.stringify(archive));
+  }, [archive]);
+
+  // Tags new to the registry get a color
+  useEffect(() => {
+    const tagRegistry = tagRegistryRef.current;
+    if (tagRegistry?.ensureTags(tasks.flatMap((task) => task.tags ?? []))) {
+      setTagList(tagRegistry.getTags());
+    }
+  }, [tasks]);
+
   const startWakeWordListening = () => {
     if (voiceManagerRef.current && !isVoiceTaskCreatorOpen) {
+      // The task creator takes over speech results while it is open
+      voiceManagerRef.current.onSpeech((transcript) =>
+        voiceCommandHandlerRef.current(transcript)
+      );
       setIsWaitingForWakeWord(true);
-      setVoiceStatus("Say 'Hi Voice' to activate");
+      setVoiceStatus(`Say '${getWakePhrase()}' to activate`);
       voiceManagerRef.current.resetRetryCount(); // Reset retry count before starting
       voiceManagerRef.current.startWakeWordListening();
     }
   };
 
+  // Spoken and displayed form of the primary wake phrase, e.g. "Hi Voice"
+  const getWakePhrase = () => {
+    const config = voiceManagerRef.current?.getConfig() ?? voiceConfig;
+    return config.wakeWords[0].replace(/\b\w/g, (c) => c.toUpperCase());
+  };
+
   const handleVoiceActivation = () => {
     const voiceManager = voiceManagerRef.current;
     if (!voiceManager) return;
 
+    // A fresh wake word abandons any question left unanswered
+    pendingPromptRef.current = null;
     setVoiceStatus("I'm listening! What would you like to do?");
     voiceManager.speak(
       "Hello! I'm your voice assistant. You can ask me to create a task, show your tasks, or complete a task. What would you like to do?",
@@ -133,131 +357,802 @@ export default function Home() {
     const voiceManager = voiceManagerRef.current;
     if (!voiceManager) return;
 
-    const command = transcript.toLowerCase().trim();
-    setVoiceStatus(`Processing: "${command}"`);
-
-    // Create task commands
-    if (voiceCommands.createTask.some((cmd) => command.includes(cmd))) {
-      voiceManager.stopActiveListening();
-      voiceManager.speak(
-        "I'll help you create a new task. Let me ask you a few questions.",
-        () => {
-          setIsVoiceTaskCreatorOpen(true);
-        }
-      );
+    if (pendingPromptRef.current) {
+      handlePromptAnswer(pendingPromptRef.current, transcript);
       return;
     }
 
-    // Complete task commands
-    if (voiceCommands.completeTask.some((cmd) => command.includes(cmd))) {
-      const taskToComplete = findTaskByCommand(command);
-      if (taskToComplete) {
-        handleToggleComplete(taskToComplete.id);
+    const intent = parseIntent(transcript);
+    setVoiceStatus(`Processing: "${intent.transcript}"`);
+
+    switch (intent.type) {
+      case "createTask": {
+        const {
+          title,
+          priority,
+          category,
+          tags,
+          dueDate,
+          dueTime,
+          reminder,
+          recurrence,
+          estimatedMinutes,
+        } = intent.slots;
+        const reminders = reminder ? [{ when: reminder }] : [];
+        const draft: Partial<TaskFormData> = {
+          title,
+          priority,
+          category,
+          tags,
+          dueDate,
+          dueTime,
+          recurrence,
+          estimatedMinutes,
+        };
+
+        // Everything said in one sentence: create it straight away
+        if (title) {
+          handleVoiceTaskCreated(
+            {
+              title,
+              description: "",
+              priority: priority ?? "medium",
+              category: category ?? "",
+              tags,
+              dueDate: dueDate ?? "",
+              dueTime,
+              recurrence,
+              estimatedMinutes,
+            },
+            reminders
+          );
+          return;
+        }
+
+        const hasDetails = Object.values(draft).some((value) => value);
+        voiceManager.stopActiveListening();
+        setVoiceTaskDraft(hasDetails ? draft : undefined);
+        draftRemindersRef.current = reminders;
         voiceManager.speak(
-          `Great! I've marked "${taskToComplete.title}" as completed.`,
+          hasDetails
+            ? "Got it. I just need a name for this task."
+            : "I'll help you create a new task. Let me ask you a few questions.",
           () => {
-            setTimeout(startWakeWordListening, 2000);
+            setIsVoiceTaskCreatorOpen(true);
           }
         );
-      } else {
-        voiceManager.speak(
-          "I couldn't find a specific task to complete. Please say the task name more clearly.",
-          () => {
-            setTimeout(startWakeWordListening, 2000);
+        return;
+      }
+
+      case "completeTask":
+        withSpokenTask(
+          intent.taskRef,
+          tasks.filter((t) => !t.completed),
+          (task) => {
+            const unlocked = describeUnlocked(task.id);
+            const next = handleToggleComplete(task.id, "voice");
+            respond(
+              `Great! I've marked "${task.title}" as completed.${
+                next?.dueDate
+                  ? ` The next one is due ${formatSpokenDate(
+                      toLocalDateString(next.dueDate),
+                      next.dueTime
+                    )}.`
+                  : ""
+              }${unlocked}`
+            );
+          }
+        );
+        return;
+
+      case "restoreTask":
+        withSpokenTask(intent.taskRef, trash, (task) => {
+          handleRestoreTask(task.id, "voice");
+          respond(`"${task.title}" is back on your list.`);
+        });
+        return;
+
+      case "reorderTask": {
+        const { position, anchorRef } = intent;
+        withSpokenTask(intent.taskRef, tasks, (task) => {
+          if (!anchorRef) {
+            handleReorderTask(task.id, position === "top" ? "top" : "bottom");
+            respond(`Moved "${task.title}" to the ${position} of your list.`);
+            return;
+          }
+          withSpokenTask(
+            anchorRef,
+            tasks.filter((t) => t.id !== task.id),
+            (anchor) => {
+              handleReorderTask(
+                task.id,
+                position === "above"
+                  ? { before: anchor.id }
+                  : { after: anchor.id }
+              );
+              respond(`"${task.title}" is now ${position} "${anchor.title}".`);
+            }
+          );
+        });
+        return;
+      }
+
+      case "reopenTask":
+        withSpokenTask(
+          intent.taskRef,
+          tasks.filter((t) => t.completed),
+          (task) => {
+            handleToggleComplete(task.id, "voice");
+            respond(`Okay, "${task.title}" is open again.`);
           }
         );
+        return;
+
+      case "query":
+        respond(answerTaskQuery(intent.query, tasks));
+        return;
+
+      case "changeView": {
+        const view = { ...taskListView, ...intent.view };
+        setTaskListView(view);
+        respond(
+          describeTaskListView(view, applyTaskListView(tasks, view).length)
+        );
+        return;
       }
-      return;
-    }
 
-    // Show tasks commands
-    if (voiceCommands.showTasks.some((cmd) => command.includes(cmd))) {
-      const activeTasks = tasks.filter((t) => !t.completed);
-      if (activeTasks.length === 0) {
-        voiceManager.speak(
-          "You have no active tasks. Great job staying organized!",
-          () => {
-            setTimeout(startWakeWordListening, 2000);
+      case "help":
+        respond(
+          `I can help you create tasks, complete, change or delete tasks, add and check off steps, tag tasks, move tasks between board columns or up and down the list, link tasks that block each other, time your work, restore deleted tasks, read or filter your task list, or set and cancel reminders. Just say '${getWakePhrase()}' and tell me what you'd like to do!`
+        );
+        return;
+
+      case "editTask": {
+        const {
+          title,
+          priority,
+          category,
+          tags,
+          dueDate,
+          dueTime,
+          estimatedMinutes,
+        } = intent.changes;
+        const changes: Partial<TaskFormData> = {};
+        if (title) changes.title = title;
+        if (priority) changes.priority = priority;
+        if (category) changes.category = category;
+        if (tags) changes.tags = tags;
+        if (dueDate) changes.dueDate = dueDate;
+        if (dueTime) changes.dueTime = dueTime;
+        if (estimatedMinutes) changes.estimatedMinutes = estimatedMinutes;
+
+        withSpokenTask(intent.taskRef, tasks, (task) => {
+          if (Object.keys(changes).length === 0) {
+            respond(
+              `What would you like to change about "${task.title}"? Try saying 'change the priority of ${task.title} to high'.`
+            );
+            return;
+          }
+          handleVoiceEdit(task, changes);
+        });
+        return;
+      }
+
+      case "deleteTask":
+        withSpokenTask(intent.taskRef, tasks, (task) => {
+          pendingPromptRef.current = { kind: "confirmDelete", task };
+          ask(
+            `Are you sure you want to delete "${task.title}"? Say yes to move it to the trash, or no to keep it.`
+          );
+        });
+        return;
+
+      case "setReminder": {
+        const { when } = intent;
+        withSpokenTask(
+          intent.taskRef,
+          tasks.filter((t) => !t.completed),
+          (task) => {
+            if (when) {
+              scheduleVoiceReminder(task, when);
+              return;
+            }
+            pendingPromptRef.current = { kind: "reminderTime", task };
+            ask(
+              `When should I remind you about "${task.title}"? For example, 'in 20 minutes' or 'tomorrow at 9'.`
+            );
           }
         );
-      } else {
-        const taskList = activeTasks
-          .slice(0, 5)
-          .map((t) => t.title)
-          .join(", ");
-        voiceManager.speak(
-          `You have ${activeTasks.length} active tasks. Here are your top tasks: ${taskList}`,
-          () => {
-            setTimeout(startWakeWordListening, 2000);
+        return;
+      }
+
+      case "cancelReminder":
+        withSpokenTask(intent.taskRef, tasks, (task) => {
+          const reminderManager = reminderManagerRef.current;
+          const active = (
+            reminderManager?.getRemindersForTask(task.id) ?? []
+          ).filter((r) => r.isActive);
+
+          if (active.length === 0) {
+            respond(`There are no reminders set for "${task.title}".`);
+            return;
+          }
+          active.forEach((r) => reminderManager?.removeReminder(r.id));
+          respond(
+            active.length === 1
+              ? `I cancelled the reminder for "${task.title}".`
+              : `I cancelled ${active.length} reminders for "${task.title}".`
+          );
+        });
+        return;
+
+      case "addSubtask":
+        withSpokenTask(intent.taskRef, tasks, (task) => {
+          const updated = addSubtask(task, intent.title);
+          replaceTask(task, updated, "voice");
+          respond(
+            `Added "${intent.title}" to "${
+              task.title
+            }". ${describeSubtaskProgress(updated)}.`
+          );
+        });
+        return;
+
+      case "completeSubtask":
+        if (intent.taskRef) {
+          withSpokenTask(intent.taskRef, tasks, (task) =>
+            completeSpokenSubtask(task, intent.stepRef)
+          );
+          return;
+        }
+        completeSpokenSubtask(null, intent.stepRef);
+        return;
+
+      case "setStatus": {
+        const column = resolveColumn(intent.status, columns);
+        if (!column) {
+          respond(
+            `There's no "${intent.status}" column. You can move tasks to ${joinSpoken(
+              columns.map((c) => c.title),
+              "or"
+            )}.`
+          );
+          return;
+        }
+
+        withSpokenTask(intent.taskRef, tasks, (task) => {
+          if (taskStatus(task) === column.id) {
+            respond(`"${task.title}" is already in ${column.title}.`);
+            return;
           }
+          const unlocked =
+            column.id === "done" ? describeUnlocked(task.id) : "";
+          const next = handleMoveTask(task.id, column.id, "voice");
+          switch (column.id) {
+            case "in-progress":
+              respond(`Okay, you're working on "${task.title}".`);
+              return;
+            case "blocked":
+              respond(`Marked "${task.title}" as blocked.`);
+              return;
+            case "done":
+              respond(
+                `Great! I've marked "${task.title}" as completed.${
+                  next?.dueDate
+                    ? ` The next one is due ${formatSpokenDate(
+                        toLocalDateString(next.dueDate),
+                        next.dueTime
+                      )}.`
+                    : ""
+                }${unlocked}`
+              );
+              return;
+            default:
+              respond(`Moved "${task.title}" to ${column.title}.`);
+          }
+        });
+        return;
+      }
+
+      case "linkTasks": {
+        const { blockerRef, remove } = intent;
+        withSpokenTask(intent.taskRef, tasks, (task) =>
+          withSpokenTask(
+            blockerRef,
+            tasks.filter((t) => t.id !== task.id),
+            (blocker) => linkSpokenTasks(task, blocker, remove)
+          )
         );
+        return;
       }
-      return;
+
+      case "blockerQuery":
+        withSpokenTask(intent.taskRef, tasks, (task) =>
+          respond(answerBlockers(task, tasks))
+        );
+        return;
+
+      case "startTimer":
+        withSpokenTask(
+          intent.taskRef,
+          tasks.filter((t) => !t.completed),
+          (task) => {
+            if (isTimerRunning(task)) {
+              respond(`The timer on "${task.title}" is already running.`);
+              return;
+            }
+            const stopped = startTaskTimer(task);
+            respond(
+              `Timer started on "${task.title}".${
+                stopped.length > 0
+                  ? ` I stopped the one on ${joinSpoken(
+                      stopped.map((t) => `"${t.title}"`)
+                    )}.`
+                  : ""
+              }`
+            );
+          }
+        );
+        return;
+
+      case "stopTimer": {
+        if (intent.taskRef) {
+          withSpokenTask(intent.taskRef, tasks, (task) => {
+            if (!isTimerRunning(task)) {
+              respond(`There's no timer running on "${task.title}".`);
+              return;
+            }
+            stopSpokenTimer(task);
+          });
+          return;
+        }
+        const running = runningTimers(tasks);
+        if (running.length === 0) {
+          respond("No timer is running.");
+          return;
+        }
+        running.forEach(stopSpokenTimer);
+        return;
+      }
+
+      case "timeSpent":
+        withSpokenTask(intent.taskRef, tasks, (task) =>
+          respond(answerTimeSpent(task))
+        );
+        return;
+
+      case "tagTask": {
+        const { tags, remove } = intent;
+        const retag = (task: Task) => {
+          const current = task.tags ?? [];
+          if (remove && !tags.some((tag) => current.includes(tag))) {
+            respond(`"${task.title}" isn't tagged ${joinSpoken(tags, "or")}.`);
+            return;
+          }
+          const updated = updateTask(task, {
+            tags: remove
+              ? current.filter((tag) => !tags.includes(tag))
+              : mergeTags(current, tags),
+          });
+          const logged = logChanges(task, updated, "voice");
+          setTasks((prev) =>
+            prev.map((t) => (t.id === task.id ? logged : t))
+          );
+          respond(
+            remove
+              ? `Removed ${joinSpoken(tags)} from "${task.title}".`
+              : `Tagged "${task.title}" with ${joinSpoken(tags)}.`
+          );
+        };
+
+        const lastTask = tasks.find((t) => t.id === lastTaskIdRef.current);
+        if (intent.taskRef) {
+          withSpokenTask(intent.taskRef, tasks, retag);
+        } else if (lastTask) {
+          retag(lastTask);
+        } else {
+          respond(
+            `Which task do you mean? Try saying 'tag the report with ${tags[0]}'.`
+          );
+        }
+        return;
+      }
+
+      case "subtaskProgress":
+        withSpokenTask(intent.taskRef, tasks, (task) =>
+          respond(answerSubtaskProgress(task))
+        );
+        return;
+
+      default:
+        respond(
+          "I didn't understand that command. Try saying 'create task', 'show tasks', 'complete task', or ask for help."
+        );
     }
+  };
+
+  useEffect(() => {
+    voiceCommandHandlerRef.current = handleVoiceCommand;
+  });
+
+  const handlePromptAnswer = (
+    prompt: PendingVoicePrompt,
+    transcript: string
+  ) => {
+    pendingPromptRef.current = null;
+    setVoiceStatus(`Processing: "${transcript}"`);
+
+    switch (prompt.kind) {
+      case "confirmDelete": {
+        const answer = parseConfirmation(transcript);
+        if (answer === "yes") {
+          handleDeleteTask(prompt.task.id, "voice");
+          respond(
+            `Moved "${prompt.task.title}" to the trash. If that was a mistake, say 'restore ${prompt.task.title}'.`
+          );
+        } else if (answer === "no") {
+          respond(`Okay, I've kept "${prompt.task.title}".`);
+        } else {
+          respond(
+            `I didn't hear a clear yes, so I've kept "${prompt.task.title}".`
+          );
+        }
+        return;
+      }
+
+      case "reminderTime": {
+        const when = parseTemporal(transcript);
+        if (when) {
+          scheduleVoiceReminder(prompt.task, when);
+        } else {
+          respond(
+            `I didn't catch a time, so I haven't set a reminder for "${prompt.task.title}".`
+          );
+        }
+        return;
+      }
 
-    // Help commands
-    if (voiceCommands.help.some((cmd) => command.includes(cmd))) {
-      voiceManager.speak(
-        "I can help you create tasks, complete tasks, show your task list, or set reminders. Just say 'Hi Voice' and tell me what you'd like to do!",
-        () => {
-          setTimeout(startWakeWordListening, 2000);
+      case "chooseTask": {
+        const task = resolveChoice(transcript, prompt.candidates);
+        if (task) {
+          prompt.onChosen(task);
+        } else {
+          respond("Okay, I'll leave your tasks as they are.");
         }
+        return;
+      }
+    }
+  };
+
+  const scheduleVoiceReminder = (task: Task, when: TemporalExpression) => {
+    const { scheduled, past, needsDueDate } = registerReminders(task, [
+      { when },
+    ]);
+    if (scheduled.length > 0) {
+      respond(
+        `Okay, I'll remind you about "${task.title}" ${formatReminderTime(
+          scheduled[0]
+        )}.`
+      );
+    } else if (needsDueDate > 0) {
+      respond(
+        `"${task.title}" doesn't have a due date yet, so I can't remind you before it's due. Give it a due date first.`
+      );
+    } else if (past.length > 0) {
+      respond(
+        `That time has already passed, so I didn't set a reminder for "${task.title}".`
+      );
+    } else {
+      respond(
+        `Sorry, I couldn't save a reminder for "${task.title}". Please try again.`
       );
-      return;
     }
+  };
 
-    // Default response
-    voiceManager.speak(
-      "I didn't understand that command. Try saying 'create task', 'show tasks', 'complete task', or ask for help.",
-      () => {
-        setTimeout(startWakeWordListening, 2000);
-      }
-    );
+  // Speak a question, then listen for the answer
+  const ask = (question: string) => {
+    const voiceManager = voiceManagerRef.current;
+    voiceManager?.speak(question, () => {
+      voiceManager.startActiveListening();
+    });
   };
 
-  const findTaskByCommand = (command: string): Task | null => {
-    // Try to find a task by matching words in the command with task titles
-    const words = command.split(" ");
+  // Speak a reply, then go back to waiting for the wake word
+  const respond = (message: string) => {
+    voiceManagerRef.current?.speak(message, () => {
+      setTimeout(startWakeWordListening, 2000);
+    });
+  };
+
+  // Resolve a spoken task name, asking "did you mean A or B?" when
+  // several tasks match about equally well
+  const withSpokenTask = (
+    taskRef: string,
+    candidates: Task[],
+    onResolved: (task: Task) => void
+  ) => {
+    const resolution = resolveTask(taskRef, candidates);
+    const resolved = (task: Task) => {
+      lastTaskIdRef.current = task.id;
+      onResolved(task);
+    };
+
+    switch (resolution.kind) {
+      case "found":
+        resolved(resolution.task);
+        return;
+
+      case "ambiguous":
+        pendingPromptRef.current = {
+          kind: "chooseTask",
+          candidates: resolution.candidates,
+          onChosen: resolved,
+        };
+        ask(
+          `Did you mean ${joinAlternatives(
+            resolution.candidates.map((t) => t.title)
+          )}?`
+        );
+        return;
 
-    for (const task of tasks.filter((t) => !t.completed)) {
-      const taskWords = task.title.toLowerCase().split(" ");
-      const matchScore = taskWords.reduce((score, word) => {
-        return score + (words.includes(word) ? 1 : 0);
-      }, 0);
+      case "none":
+        respond(
+          `I couldn't find a task matching "${taskRef}". Please say the task name more clearly.`
+        );
+    }
+  };
+
+  // Tells which blocked tasks completing this one frees, e.g.
+  // ' "Write report" is ready to start now.'; empty when none
+  const describeUnlocked = (taskId: string): string => {
+    const freed = dependentsFreedBy(tasks, taskId);
+    if (freed.length === 0) return "";
+    return ` ${joinSpoken(freed.map((t) => `"${t.title}"`))} ${
+      freed.length === 1 ? "is" : "are"
+    } ready to start now.`;
+  };
 
-      if (matchScore > 0) {
-        return task;
+  // "Stopped the timer on "X" after 25 minutes. That's 1 hour and 5
+  // minutes on it in total."
+  const stopSpokenTimer = (task: Task) => {
+    const now = new Date();
+    const entry = runningEntry(task);
+    const stopped = stopTimer(task, now);
+    replaceTask(task, stopped, "voice");
+    const session = entry ? now.getTime() - entry.start.getTime() : 0;
+    const total = trackedMs(stopped, now);
+    respond(
+      `Stopped the timer on "${task.title}" after ${describeDuration(
+        session
+      )}.${
+        total > session
+          ? ` That's ${describeDuration(total)} on it in total.`
+          : ""
+      }`
+    );
+  };
+
+  const linkSpokenTasks = (task: Task, blocker: Task, remove?: boolean) => {
+    const linked = task.blockedBy?.includes(blocker.id) ?? false;
+    if (remove) {
+      if (!linked) {
+        respond(`"${task.title}" isn't waiting on "${blocker.title}".`);
+        return;
       }
+      const updated = removeBlocker(task, blocker.id, tasks);
+      replaceTask(task, updated, "voice");
+      respond(
+        `Okay, "${task.title}" no longer waits on "${blocker.title}".${
+          updated.status !== task.status ? " It's ready to start." : ""
+        }`
+      );
+      return;
     }
 
-    return null;
+    if (linked) {
+      respond(`"${task.title}" is already waiting on "${blocker.title}".`);
+      return;
+    }
+    // [blocker, ..., task]: the links that would close the loop
+    const cycle = findDependencyCycle(tasks, task.id, blocker.id);
+    if (cycle) {
+      const through = cycle.slice(1, -1).map((t) => `"${t.title}"`);
+      respond(
+        `I can't do that: "${blocker.title}" is already waiting on "${
+          task.title
+        }"${
+          through.length ? ` through ${joinSpoken(through)}` : ""
+        }, so they would wait on each other forever.`
+      );
+      return;
+    }
+    replaceTask(task, addBlocker(task, blocker), "voice");
+    respond(
+      blocker.completed
+        ? `Okay, "${task.title}" depends on "${blocker.title}", which is already done.`
+        : `Okay, "${task.title}" is blocked until "${blocker.title}" is done.`
+    );
   };
 
-  const handleCreateTask = (formData: TaskFormData) => {
-    const newTask = createTask(formData);
+  // Checks off a spoken step: "2" or "two" is the second step of the
+  // task, and without a task every open task's open steps are searched
+  const completeSpokenSubtask = (task: Task | null, stepRef: string) => {
+    const steps = (task ? [task] : tasks.filter((t) => !t.completed)).flatMap(
+      (t) =>
+        (t.subtasks ?? [])
+          .filter((subtask) => !subtask.completed)
+          .map((subtask) => ({ title: subtask.title, subtask, task: t }))
+    );
+    const number = normalizeNumbers(stepRef);
+    const position = task && /^\d+$/.test(number) ? parseInt(number) : 0;
+    const numbered = task?.subtasks?.[position - 1];
+    const resolution = numbered
+      ? { kind: "found" as const, task: { subtask: numbered, task } }
+      : resolveTask(stepRef, steps);
+
+    if (resolution.kind === "none") {
+      respond(
+        task
+          ? `"${task.title}" has no open step matching "${stepRef}".`
+          : `I couldn't find a step matching "${stepRef}".`
+      );
+      return;
+    }
+    if (resolution.kind === "ambiguous") {
+      respond(
+        `Did you mean ${joinAlternatives(
+          resolution.candidates.map((step) => step.subtask.title)
+        )}? Please say the step with its task, like "check off step ${
+          resolution.candidates[0].subtask.title
+        } in ${resolution.candidates[0].task.title}".`
+      );
+      return;
+    }
+
+    const { subtask, task: parent } = resolution.task;
+    const updated = toggleSubtask(parent, subtask.id, true);
+    replaceTask(parent, updated, "voice");
+    const unlocked =
+      updated.completed && !parent.completed ? describeUnlocked(parent.id) : "";
+    respond(
+      updated.completed && !parent.completed
+        ? `Checked off "${subtask.title}". That was the last step, so "${parent.title}" is complete.${unlocked}`
+        : `Checked off "${subtask.title}". ${answerSubtaskProgress(updated)}`
+    );
+  };
+
+  const handleCreateTask = (
+    formData: TaskFormData,
+    voiceMemo?: VoiceMemoRecording | null
+  ) => {
+    const newTask = logActivity(
+      attachVoiceMemo(
+        syncBlockedStatus(createTask(formData), tasks),
+        voiceMemo
+      ),
+      "created",
+      "form"
+    );
     setTasks((prev) => [newTask, ...prev]);
     setIsFormOpen(false);
   };
 
-  const handleVoiceTaskCreated = (formData: TaskFormData) => {
-    const newTask = createTask(formData);
+  const handleVoiceTaskCreated = (
+    formData: TaskFormData,
+    reminders: ReminderRequest[] = []
+  ) => {
+    const newTask = logActivity(createTask(formData), "created", "voice");
     setTasks((prev) => [newTask, ...prev]);
+    lastTaskIdRef.current = newTask.id;
     setIsVoiceTaskCreatorOpen(false);
+    setVoiceTaskDraft(undefined);
 
-    const voiceManager = voiceManagerRef.current;
-    if (voiceManager) {
-      voiceManager.speak(
-        `Perfect! I've created your task "${newTask.title}". Say 'Hi Voice' anytime you need help!`,
-        () => {
-          setTimeout(startWakeWordListening, 2000);
-        }
+    // Reminders spoken in the opening command come with the draft
+    const requested = [...draftRemindersRef.current, ...reminders];
+    draftRemindersRef.current = [];
+
+    respond(
+      `Perfect! I've created your task ${describeTaskForSpeech(
+        formData
+      )}.${describeReminderResults(
+        registerReminders(newTask, requested)
+      )} Say '${getWakePhrase()}' anytime you need help!`
+    );
+  };
+
+  // Schedule reminders for a task, reporting every one that could not
+  // be set so none is dropped silently
+  const registerReminders = (
+    task: Task,
+    requests: ReminderRequest[]
+  ): {
+    scheduled: Date[];
+    failed: Date[];
+    past: Date[];
+    needsDueDate: number;
+  } => {
+    const results = {
+      scheduled: [] as Date[],
+      failed: [] as Date[],
+      past: [] as Date[],
+      needsDueDate: 0,
+    };
+    const reminderManager = reminderManagerRef.current;
+
+    for (const { when, type } of requests) {
+      const reminderTime = reminderTimeFor(when, task);
+      if (!reminderTime) {
+        results.needsDueDate++;
+        continue;
+      }
+      if (reminderTime.getTime() <= Date.now()) {
+        results.past.push(reminderTime);
+        continue;
+      }
+      try {
+        if (!reminderManager) throw new Error("Reminders are unavailable");
+        reminderManager.addReminder(task.id, reminderTime, type);
+        results.scheduled.push(reminderTime);
+      } catch (error) {
+        console.error("Error scheduling reminder:", error);
+        results.failed.push(reminderTime);
+      }
+    }
+
+    return results;
+  };
+
+  const describeReminderResults = ({
+    scheduled,
+    failed,
+    past,
+    needsDueDate,
+  }: ReturnType<typeof registerReminders>): string => {
+    const sentences: string[] = [];
+    if (scheduled.length > 0) {
+      sentences.push(
+        `I'll remind you ${joinSpoken(
+          scheduled.map((time) => formatReminderTime(time))
+        )}.`
       );
     }
+    if (past.length > 0) {
+      sentences.push(
+        `A reminder ${joinSpoken(
+          past.map((time) => formatReminderTime(time))
+        )} would already be in the past, so I didn't set it.`
+      );
+    }
+    if (needsDueDate > 0) {
+      sentences.push(
+        "It has no due date, so I couldn't set a reminder before it's due."
+      );
+    }
+    if (failed.length > 0) {
+      sentences.push(
+        "I couldn't save your reminder, so please add it from the task instead."
+      );
+    }
+    return sentences.map((sentence) => ` ${sentence}`).join("");
   };
 
-  const handleEditTask = (formData: TaskFormData) => {
+  const handleEditTask = (
+    formData: TaskFormData,
+    voiceMemo?: VoiceMemoRecording | null
+  ) => {
     if (editingTask) {
-      const updatedTask = updateTask(editingTask, formData);
+      const updatedTask = logChanges(
+        editingTask,
+        attachVoiceMemo(
+          syncBlockedStatus(
+            updateTask(editingTask, formData),
+            tasks,
+            editingTask
+          ),
+          voiceMemo
+        ),
+        "form"
+      );
       setTasks((prev) =>
         prev.map((task) => (task.id === editingTask.id ? updatedTask : task))
       );
@@ -266,25 +1161,279 @@ export default function Home() {
     }
   };
 
-  const handleToggleComplete = (taskId: string) => {
+  // Stores a memo recorded in the form under the task's id (null
+  // removes it) and returns the task with its memo details
+  const attachVoiceMemo = (
+    task: Task,
+    voiceMemo?: VoiceMemoRecording | null
+  ): Task => {
+    const voiceMemoStore = voiceMemoStoreRef.current;
+    if (voiceMemo === undefined || !voiceMemoStore) return task;
+
+    if (voiceMemo === null) {
+      voiceMemoStore.delete(task.id).catch((error) => {
+        console.error("Error deleting voice memo:", error);
+      });
+      return { ...task, voiceMemo: undefined };
+    }
+
+    voiceMemoStore.save(task.id, voiceMemo).catch((error) => {
+      console.error("Error saving voice memo:", error);
+      setTasks((prev) =>
+        prev.map((t) => (t.id === task.id ? { ...t, voiceMemo: undefined } : t))
+      );
+    });
+    const { mimeType, durationMs, recordedAt } = voiceMemo;
+    return { ...task, voiceMemo: { mimeType, durationMs, recordedAt } };
+  };
+
+  const handlePlayMemo = async (taskId: string) => {
+    const audio = await voiceMemoStoreRef.current?.getAudio(taskId);
+    if (!audio) throw new Error("No voice memo is saved for this task");
+    await playAudio(audio);
+  };
+
+  // The memo recognizer needs the microphone to itself
+  const handleMemoRecordingChange = (recording: boolean) => {
+    const voiceManager = voiceManagerRef.current;
+    if (!voiceManager) return;
+    if (recording && voiceManager.isWaitingForWake()) {
+      memoPausedWakeWordRef.current = true;
+      voiceManager.stopWakeWordListening();
+      setIsWaitingForWakeWord(false);
+      setVoiceStatus("Recording a voice memo...");
+    } else if (!recording && memoPausedWakeWordRef.current) {
+      memoPausedWakeWordRef.current = false;
+      startWakeWordListening();
+    }
+  };
+
+  const handleVoiceEdit = (task: Task, changes: Partial<TaskFormData>) => {
+    const updatedTask = logChanges(task, updateTask(task, changes), "voice");
     setTasks((prev) =>
-      prev.map((task) =>
-        task.id === taskId ? toggleTaskCompletion(task) : task
-      )
+      prev.map((t) => (t.id === task.id ? updatedTask : t))
     );
+
+    // Read the change back so misheard values are caught immediately
+    const readBack: string[] = [];
+    if (changes.title) {
+      readBack.push(`renamed "${task.title}" to "${changes.title}"`);
+    }
+    if (changes.priority) {
+      readBack.push(`set the priority to ${changes.priority}`);
+    }
+    if (changes.category) {
+      readBack.push(`tagged it ${normalizeTag(changes.category)}`);
+    }
+    if (changes.tags) {
+      readBack.push(`set its tags to ${joinSpoken(changes.tags)}`);
+    }
+    if (changes.dueDate) {
+      readBack.push(
+        `made it due ${formatSpokenDate(changes.dueDate, updatedTask.dueTime)}`
+      );
+    }
+    if (changes.estimatedMinutes) {
+      readBack.push(
+        `estimated it at ${describeDuration(changes.estimatedMinutes * 60000)}`
+      );
+    }
+
+    respond(`Okay. For "${task.title}", I ${readBack.join(" and ")}.`);
   };
 
-  const handleDeleteTask = (taskId: string) => {
-    setTasks((prev) => prev.filter((task) => task.id !== taskId));
+  // Swaps in a changed task, logging the change. When the change
+  // completes a recurring task, the next occurrence comes up and is
+  // returned.
+  const replaceTask = (
+    task: Task,
+    changed: Task,
+    source: ActivitySource = "form"
+  ): Task | null => {
+    const completing = changed.completed && !task.completed;
+    // Finishing a task stops its timer
+    const updated = logChanges(
+      task,
+      completing ? stopTimer(changed) : changed,
+      source
+    );
+    const next = completing ? spawnNextOccurrence(updated) : null;
+    // Reopening and completing again must not spawn a second one
+    const spawned =
+      next &&
+      !tasks.some(
+        (t) =>
+          t.seriesId === next.seriesId &&
+          (t.occurrence ?? 1) >= (next.occurrence ?? 1)
+      )
+        ? next
+        : null;
+
+    setTasks((prev) => {
+      const replaced = [
+        ...(spawned ? [logActivity(spawned, "created", "system")] : []),
+        ...prev.map((t) => (t.id === task.id ? updated : t)),
+      ];
+      // Tasks waiting only on this one can start now
+      return completing
+        ? logChangesAcross(
+            replaced,
+            unlockDependents(replaced, task.id),
+            "system"
+          )
+        : replaced;
+    });
 
-    // Also remove any reminders for this task
+    // The next occurrence's reminders keep their distance to its due date
     const reminderManager = reminderManagerRef.current;
-    if (reminderManager) {
-      const taskReminders = reminderManager.getRemindersForTask(taskId);
-      taskReminders.forEach((reminder) => {
-        reminderManager.removeReminder(reminder.id);
-      });
+    if (spawned && task.dueDate && spawned.dueDate && reminderManager) {
+      reminderManager.copyReminders(
+        task.id,
+        spawned.id,
+        spawned.dueDate.getTime() - task.dueDate.getTime()
+      );
     }
+    return spawned;
+  };
+
+  const handleToggleComplete = (
+    taskId: string,
+    source: ActivitySource = "form"
+  ): Task | null => {
+    const task = tasks.find((t) => t.id === taskId);
+    return task ? replaceTask(task, toggleTaskCompletion(task), source) : null;
+  };
+
+  // Moving to "done" completes the task like ticking it off
+  const handleMoveTask = (
+    taskId: string,
+    status: TaskStatus,
+    source: ActivitySource = "form"
+  ): Task | null => {
+    const task = tasks.find((t) => t.id === taskId);
+    return task ? replaceTask(task, setTaskStatus(task, status), source) : null;
+  };
+
+  const handleReorderTask = (taskId: string, position: OrderPosition) => {
+    setTasks((prev) => reorderTask(prev, taskId, position));
+  };
+
+  // One timer runs at a time: starting one stops the others, which
+  // are returned
+  const startTaskTimer = (task: Task): Task[] => {
+    const now = new Date();
+    const stopped = runningTimers(tasks).filter((t) => t.id !== task.id);
+    setTasks((prev) =>
+      prev.map((t) =>
+        t.id === task.id
+          ? startTimer(t, now)
+          : isTimerRunning(t)
+          ? stopTimer(t, now)
+          : t
+      )
+    );
+    return stopped;
+  };
+
+  const handleToggleTimer = (taskId: string) => {
+    const task = tasks.find((t) => t.id === taskId);
+    if (!task) return;
+    if (isTimerRunning(task)) {
+      replaceTask(task, stopTimer(task));
+    } else {
+      startTaskTimer(task);
+    }
+  };
+
+  const handleToggleSubtask = (taskId: string, subtaskId: string) => {
+    const task = tasks.find((t) => t.id === taskId);
+    if (task) replaceTask(task, toggleSubtask(task, subtaskId));
+  };
+
+  // Deleting moves the task to the trash: its reminders are paused and
+  // tasks it was blocking stop waiting on it, until it is restored
+  const handleDeleteTask = (
+    taskId: string,
+    source: ActivitySource = "form"
+  ) => {
+    const task = tasks.find((t) => t.id === taskId);
+    if (!task) return;
+    setTasks((prev) =>
+      logChangesAcross(prev, unlockDependents(prev, taskId), "system").filter(
+        (t) => t.id !== taskId
+      )
+    );
+    setTrash((prev) => [
+      logActivity(moveToTrash(stopTimer(task)), "deleted", source),
+      ...prev,
+    ]);
+    reminderManagerRef.current?.pauseRemindersForTask(taskId);
+  };
+
+  const handleRestoreTask = (
+    taskId: string,
+    source: ActivitySource = "form"
+  ) => {
+    const task = trash.find((t) => t.id === taskId);
+    if (!task) return;
+    const restored = logActivity(restoreFromTrash(task), "restored", source);
+    setTrash((prev) => prev.filter((t) => t.id !== taskId));
+    // Tasks still linked to it wait on it again
+    setTasks((prev) => {
+      const all = [restored, ...prev];
+      return logChangesAcross(
+        all,
+        all.map((t) =>
+          t.blockedBy?.includes(taskId) ? syncBlockedStatus(t, all) : t
+        ),
+        "system"
+      );
+    });
+    reminderManagerRef.current?.resumeRemindersForTask(taskId);
+  };
+
+  // Deletes trashed tasks for good, with their reminders, voice memos
+  // and the links other tasks had to them
+  const handlePurgeTasks = (taskIds: string[]) => {
+    setTrash((prev) => prev.filter((t) => !taskIds.includes(t.id)));
+    setTasks((prev) =>
+      taskIds.reduce((rest, id) => removeFromDependencies(rest, id), prev)
+    );
+    taskIds.forEach((id) => {
+      reminderManagerRef.current?.removeRemindersForTask(id);
+      voiceMemoStoreRef.current?.delete(id).catch((error) => {
+        console.error("Error deleting voice memo:", error);
+      });
+    });
+  };
+
+  const handleTrashSettingsChange = (settings: TrashSettings) => {
+    setTrashSettings(settings);
+    saveTrashSettings(settings);
+    const expired = expiredTrash(trash, settings);
+    if (expired.length > 0) handlePurgeTasks(expired.map((t) => t.id));
+  };
+
+  // Only finished tasks are archived; they leave the list and the
+  // statistics but stay searchable in the archive
+  const handleArchiveTask = (taskId: string) => {
+    const task = tasks.find((t) => t.id === taskId);
+    if (!task?.completed) return;
+    setTasks((prev) => prev.filter((t) => t.id !== taskId));
+    setArchive((prev) => [
+      logActivity(archiveTask(task), "archived", "form"),
+      ...prev,
+    ]);
+  };
+
+  const handleUnarchiveTask = (taskId: string) => {
+    const task = archive.find((t) => t.id === taskId);
+    if (!task) return;
+    setArchive((prev) => prev.filter((t) => t.id !== taskId));
+    setTasks((prev) => [
+      logActivity(unarchiveTask(task), "unarchived", "form"),
+      ...prev,
+    ]);
   };
 
   const handleEditClick = (task: Task) => {
@@ -299,9 +1448,78 @@ export default function Home() {
 
   const handleVoiceTaskCancel = () => {
     setIsVoiceTaskCreatorOpen(false);
+    setVoiceTaskDraft(undefined);
+    draftRemindersRef.current = [];
     setTimeout(startWakeWordListening, 1000);
   };
 
+  // Renaming onto an existing tag merges the two
+  const handleRenameTag = (from: string, to: string) => {
+    const tagRegistry = tagRegistryRef.current;
+    if (!tagRegistry) return;
+    tagRegistry.renameTag(from, to);
+    setTagList(tagRegistry.getTags());
+    setTasks((prev) =>
+      logChangesAcross(prev, retagTasks(prev, from, to), "form")
+    );
+    // Trashed and archived tasks too, or the old tag returns on restore
+    setTrash((prev) => retagTasks(prev, from, to));
+    setArchive((prev) => retagTasks(prev, from, to));
+    setTaskListView((view) => ({
+      ...view,
+      tags:
+        view.tags &&
+        mergeTags(view.tags.map((tag) => (tag === from ? to : tag))),
+    }));
+  };
+
+  const handleDeleteTag = (name: string) => {
+    const tagRegistry = tagRegistryRef.current;
+    if (!tagRegistry) return;
+    tagRegistry.removeTag(name);
+    setTagList(tagRegistry.getTags());
+    setTasks((prev) =>
+      logChangesAcross(prev, retagTasks(prev, name, null), "form")
+    );
+    setTrash((prev) => retagTasks(prev, name, null));
+    setArchive((prev) => retagTasks(prev, name, null));
+    setTaskListView((view) => ({
+      ...view,
+      tags: view.tags?.filter((tag) => tag !== name),
+    }));
+  };
+
+  const handleRecolorTag = (name: string, color: Tag["color"]) => {
+    const tagRegistry = tagRegistryRef.current;
+    if (!tagRegistry) return;
+    tagRegistry.setColor(name, color);
+    setTagList(tagRegistry.getTags());
+  };
+
+  const handleAddColumn = (title: string) => {
+    const workflowBoard = workflowBoardRef.current;
+    if (!workflowBoard) return;
+    workflowBoard.addColumn(title);
+    setColumns(workflowBoard.getColumns());
+  };
+
+  const handleRemoveColumn = (id: TaskStatus) => {
+    const workflowBoard = workflowBoardRef.current;
+    if (!workflowBoard) return;
+    workflowBoard.removeColumn(id);
+    setColumns(workflowBoard.getColumns());
+    setTasks((prev) =>
+      logChangesAcross(prev, moveTasksOutOf(prev, id), "form")
+    );
+  };
+
+  const handleVoiceSettingsSave = (config: VoiceConfig) => {
+    voiceManagerRef.current?.configure(config);
+    saveVoiceConfig(config);
+    setVoiceConfig(config);
+    setIsVoiceSettingsOpen(false);
+  };
+
   const handleVoiceIndicatorToggle = () => {
     const voiceManager = voiceManagerRef.current;
     if (!voiceManager) return;
@@ -321,6 +1539,10 @@ export default function Home() {
     }
   };
 
+  const tagColors = Object.fromEntries(
+    tagList.map((tag) => [tag.name, tag.color])
+  );
+
   const completedCount = tasks.filter((task) => task.completed).length;
   const totalCount = tasks.length;
   const completionPercentage =
@@ -435,7 +1657,7 @@ export default function Home() {
                       Voice Tasks
                     </h1>
                     <p className="text-lg text-blue-100/80 font-medium">
-                      Say "Hi Voice" to get started
+                      Say &ldquo;{getWakePhrase()}&rdquo; to get started
                     </p>
                   </div>
                 </motion.div>
@@ -510,6 +1732,58 @@ export default function Home() {
                     New Task
                   </div>
                 </motion.button>
+
+                <motion.button
+                  onClick={() => setIsVoiceSettingsOpen(true)}
+                  className="px-6 py-4 bg-white/10 border border-white/20 rounded-xl text-blue-100 font-semibold text-lg hover:bg-white/20 transition-colors duration-300"
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  initial={{ opacity: 0, x: 50 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  transition={{ delay: 0.8, duration: 0.5 }}
+                  title="Voice settings"
+                >
+                  Voice Settings
+                </motion.button>
+
+                <motion.button
+                  onClick={() => setIsTagManagerOpen(true)}
+                  className="px-6 py-4 bg-white/10 border border-white/20 rounded-xl text-blue-100 font-semibold text-lg hover:bg-white/20 transition-colors duration-300"
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  initial={{ opacity: 0, x: 50 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  transition={{ delay: 0.9, duration: 0.5 }}
+                  title="Manage tags"
+                >
+                  Tags
+                </motion.button>
+
+                <motion.button
+                  onClick={() => setIsTimeReportOpen(true)}
+                  className="px-6 py-4 bg-white/10 border border-white/20 rounded-xl text-blue-100 font-semibold text-lg hover:bg-white/20 transition-colors duration-300"
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  initial={{ opacity: 0, x: 50 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  transition={{ delay: 1, duration: 0.5 }}
+                  title="Estimated versus actual time"
+                >
+                  Time
+                </motion.button>
+
+                <motion.button
+                  onClick={() => setIsTrashOpen(true)}
+                  className="px-6 py-4 bg-white/10 border border-white/20 rounded-xl text-blue-100 font-semibold text-lg hover:bg-white/20 transition-colors duration-300"
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  initial={{ opacity: 0, x: 50 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  transition={{ delay: 1.1, duration: 0.5 }}
+                  title="Deleted and archived tasks"
+                >
+                  Trash{trash.length > 0 ? ` (${trash.length})` : ""}
+                </motion.button>
               </div>
             </div>
           </div>
@@ -523,12 +1797,57 @@ export default function Home() {
           transition={{ delay: 1, duration: 0.8 }}
         >
           <div className="bg-white/5 backdrop-blur-xl rounded-3xl border border-white/10 shadow-2xl p-8">
-            <TaskList
-              tasks={tasks}
-              onToggleComplete={handleToggleComplete}
-              onDelete={handleDeleteTask}
-              onEdit={handleEditClick}
-            />
+            {/* List or Board */}
+            <div className="flex justify-end mb-6">
+              <div className="flex bg-white/10 backdrop-blur-sm rounded-2xl p-1 border border-white/20">
+                {(["list", "board"] as const).map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => setLayout(option)}
+                    className={`px-5 py-2 text-sm font-semibold rounded-xl transition-all duration-300 ${
+                      layout === option
+                        ? "bg-gradient-to-r from-blue-500 to-purple-500 text-white shadow-lg"
+                        : "text-blue-200 hover:text-white hover:bg-white/10"
+                    }`}
+                    aria-pressed={layout === option}
+                  >
+                    {option === "list" ? "List" : "Board"}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {layout === "list" ? (
+              <TaskList
+                tasks={tasks}
+                onToggleComplete={handleToggleComplete}
+                onDelete={handleDeleteTask}
+                onEdit={handleEditClick}
+                onToggleSubtask={handleToggleSubtask}
+                onToggleTimer={handleToggleTimer}
+                onPlayMemo={handlePlayMemo}
+                onArchive={handleArchiveTask}
+                onReorder={handleReorderTask}
+                tagColors={tagColors}
+                view={taskListView}
+                onViewChange={setTaskListView}
+              />
+            ) : (
+              // Every status has a column, so only tags, priority and
+              // search narrow the board
+              <KanbanBoard
+                tasks={applyTaskListView(tasks, {
+                  ...taskListView,
+                  filter: "all",
+                })}
+                columns={columns}
+                onMoveTask={handleMoveTask}
+                onEdit={handleEditClick}
+                onAddColumn={handleAddColumn}
+                onRemoveColumn={handleRemoveColumn}
+                tagColors={tagColors}
+              />
+            )}
           </div>
         </motion.main>
       </div>
@@ -541,13 +1860,61 @@ export default function Home() {
             onSubmit={editingTask ? handleEditTask : handleCreateTask}
             onCancel={handleFormCancel}
             isOpen={isFormOpen}
+            tasks={tasks}
+            onMemoRecordingChange={handleMemoRecordingChange}
           />
         )}
       </AnimatePresence>
 
+      {/* Voice Settings Modal */}
+      <VoiceSettings
+        config={voiceConfig}
+        recentScores={wakeWordScores}
+        onSave={handleVoiceSettingsSave}
+        onCancel={() => setIsVoiceSettingsOpen(false)}
+        isOpen={isVoiceSettingsOpen}
+      />
+
+      {/* Tag Manager Modal */}
+      <TagManager
+        tags={tagList}
+        usage={Object.fromEntries(
+          tagList.map((tag) => [
+            tag.name,
+            tasks.filter((task) => task.tags?.includes(tag.name)).length,
+          ])
+        )}
+        onRecolor={handleRecolorTag}
+        onRename={handleRenameTag}
+        onDelete={handleDeleteTag}
+        onClose={() => setIsTagManagerOpen(false)}
+        isOpen={isTagManagerOpen}
+      />
+
+      {/* Time Report Modal */}
+      <TimeReport
+        tasks={tasks}
+        onClose={() => setIsTimeReportOpen(false)}
+        isOpen={isTimeReportOpen}
+      />
+
+      {/* Trash & Archive Modal */}
+      <TrashAndArchive
+        trash={trash}
+        archive={archive}
+        settings={trashSettings}
+        onRestore={handleRestoreTask}
+        onPurge={handlePurgeTasks}
+        onUnarchive={handleUnarchiveTask}
+        onSettingsChange={handleTrashSettingsChange}
+        onClose={() => setIsTrashOpen(false)}
+        isOpen={isTrashOpen}
+      />
+
       {/* Voice Task Creator */}
       <VoiceTaskCreator
         isActive={isVoiceTaskCreatorOpen}
+        initialData={voiceTaskDraft}
         onTaskCreated={handleVoiceTaskCreated}
         onCancel={handleVoiceTaskCancel}
         voiceManager={voiceManagerRef.current!}
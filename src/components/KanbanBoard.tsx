@@ -0,0 +1,228 @@
+"use client";
+
+import { formatDueTime, isOverdue } from "@/lib/deadlines";
+import { TagColor, tagColorClasses } from "@/lib/tags";
+import { subtaskProgress } from "@/lib/utils";
+import { WorkflowColumn, taskStatus } from "@/lib/workflow";
+import { Task, TaskStatus } from "@/types/task";
+import { motion } from "framer-motion";
+import { useState } from "react";
+
+interface KanbanBoardProps {
+  tasks: Task[];
+  columns: WorkflowColumn[];
+  onMoveTask: (taskId: string, status: TaskStatus) => void;
+  onEdit: (task: Task) => void;
+  onAddColumn?: (title: string) => void;
+  // Tasks in a removed column go back to "To Do"
+  onRemoveColumn?: (id: TaskStatus) => void;
+  tagColors?: Record<string, TagColor>;
+}
+
+const columnAccents: Record<string, string> = {
+  todo: "from-gray-400 to-gray-500",
+  "in-progress": "from-blue-500 to-purple-500",
+  blocked: "from-red-500 to-pink-500",
+  done: "from-green-500 to-emerald-500",
+};
+
+const priorityBorders: Record<Task["priority"], string> = {
+  high: "border-l-red-400",
+  medium: "border-l-yellow-400",
+  low: "border-l-green-400",
+};
+
+export default function KanbanBoard({
+  tasks,
+  columns,
+  onMoveTask,
+  onEdit,
+  onAddColumn,
+  onRemoveColumn,
+  tagColors = {},
+}: KanbanBoardProps) {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<TaskStatus | null>(null);
+  const [newColumn, setNewColumn] = useState("");
+
+  // Tasks in a column that no longer exists show under "To Do"
+  const columnIds = new Set(columns.map((column) => column.id));
+  const columnOf = (task: Task) => {
+    const status = taskStatus(task);
+    return columnIds.has(status) ? status : "todo";
+  };
+
+  const handleDrop = (status: TaskStatus, taskId: string) => {
+    const task = tasks.find((t) => t.id === taskId);
+    if (task && columnOf(task) !== status) onMoveTask(taskId, status);
+    setDraggedId(null);
+    setDropTarget(null);
+  };
+
+  const handleAddColumn = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newColumn.trim()) return;
+    onAddColumn?.(newColumn.trim());
+    setNewColumn("");
+  };
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-4">
+      {columns.map((column) => {
+        const columnTasks = tasks.filter(
+          (task) => columnOf(task) === column.id
+        );
+        return (
+          <div
+            key={column.id}
+            onDragOver={(e) => {
+              e.preventDefault();
+              e.dataTransfer.dropEffect = "move";
+              setDropTarget(column.id);
+            }}
+            onDragLeave={(e) => {
+              // Ignore leaving into one of the column's own cards
+              if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+                setDropTarget(null);
+              }
+            }}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(column.id, e.dataTransfer.getData("text/plain"));
+            }}
+            className={`flex-shrink-0 w-72 bg-white/5 rounded-2xl border p-4 transition-all duration-300 ${
+              dropTarget === column.id
+                ? "border-blue-400/60 bg-blue-500/10"
+                : "border-white/10"
+            }`}
+          >
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-2">
+                <div
+                  className={`w-2 h-2 rounded-full bg-gradient-to-r ${
+                    columnAccents[column.id] ?? "from-purple-400 to-blue-400"
+                  }`}
+                />
+                <h3 className="text-sm font-bold text-white uppercase tracking-wide">
+                  {column.title}
+                </h3>
+                <span className="px-2 py-0.5 text-xs bg-white/20 text-blue-100 rounded-full">
+                  {columnTasks.length}
+                </span>
+              </div>
+              {!column.builtIn && onRemoveColumn && (
+                <button
+                  onClick={() => onRemoveColumn(column.id)}
+                  className="p-1 text-blue-200 hover:text-red-300 rounded-lg transition-colors duration-300"
+                  title={`Remove the ${column.title} column`}
+                >
+                  ✕
+                </button>
+              )}
+            </div>
+
+            <div className="space-y-3 min-h-[4rem]">
+              {columnTasks.map((task) => {
+                const { done, total } = subtaskProgress(task);
+                return (
+                  <div
+                    key={task.id}
+                    draggable
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData("text/plain", task.id);
+                      e.dataTransfer.effectAllowed = "move";
+                      setDraggedId(task.id);
+                    }}
+                    onDragEnd={() => {
+                      setDraggedId(null);
+                      setDropTarget(null);
+                    }}
+                    onDoubleClick={() => onEdit(task)}
+                    className={`bg-white/10 rounded-xl border border-white/10 border-l-4 ${
+                      priorityBorders[task.priority]
+                    } p-3 cursor-grab active:cursor-grabbing hover:bg-white/15 transition-all duration-300 ${
+                      draggedId === task.id ? "opacity-40" : ""
+                    }`}
+                    title="Drag to another column, double-click to edit"
+                  >
+                    <p
+                      className={`text-sm font-semibold ${
+                        task.completed
+                          ? "line-through text-white/50"
+                          : "text-white"
+                      }`}
+                    >
+                      {task.title}
+                    </p>
+                    {(total > 0 || task.dueDate || !!task.tags?.length) && (
+                      <div className="flex flex-wrap items-center gap-2 mt-2">
+                        {total > 0 && (
+                          <span className="text-xs text-blue-200">
+                            {done}/{total} steps
+                          </span>
+                        )}
+                        {task.dueDate && (
+                          <span
+                            className={`text-xs ${
+                              isOverdue(task) ? "text-red-300" : "text-blue-200"
+                            }`}
+                          >
+                            Due{" "}
+                            {new Date(task.dueDate).toLocaleDateString(
+                              "en-US",
+                              { month: "short", day: "numeric" }
+                            )}
+                            {task.dueTime && `, ${formatDueTime(task.dueTime)}`}
+                          </span>
+                        )}
+                        {task.tags?.map((tag) => (
+                          <span
+                            key={tag}
+                            className={`px-2 py-0.5 rounded-full text-xs border ${
+                              tagColorClasses[tagColors[tag] ?? "blue"]
+                            }`}
+                          >
+                            #{tag}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+              {columnTasks.length === 0 && (
+                <p className="text-xs text-blue-200/60 text-center py-4">
+                  Drop tasks here
+                </p>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      {onAddColumn && (
+        <motion.form
+          onSubmit={handleAddColumn}
+          className="flex-shrink-0 w-60 bg-white/5 rounded-2xl border border-dashed border-white/20 p-4 space-y-3 self-start"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+        >
+          <input
+            type="text"
+            value={newColumn}
+            onChange={(e) => setNewColumn(e.target.value)}
+            placeholder="New column, e.g. In Review"
+            className="w-full px-3 py-2 bg-white/10 border border-white/20 rounded-xl text-sm text-white placeholder-blue-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-300"
+          />
+          <button
+            type="submit"
+            disabled={!newColumn.trim()}
+            className="w-full py-2 text-sm font-semibold rounded-xl bg-white/10 text-blue-100 hover:bg-white/20 disabled:opacity-50 transition-all duration-300"
+          >
+            + Add column
+          </button>
+        </motion.form>
+      )}
+    </div>
+  );
+}
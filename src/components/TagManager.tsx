@@ -0,0 +1,173 @@
+"use client";
+
+import {
+  TAG_COLORS,
+  Tag,
+  TagColor,
+  normalizeTag,
+  tagColorClasses,
+} from "@/lib/tags";
+import { AnimatePresence, motion } from "framer-motion";
+import { useEffect, useState } from "react";
+
+interface TagManagerProps {
+  tags: Tag[];
+  // How many tasks carry each tag
+  usage: Record<string, number>;
+  onRecolor: (name: string, color: TagColor) => void;
+  // Renaming onto an existing tag merges the two
+  onRename: (from: string, to: string) => void;
+  onDelete: (name: string) => void;
+  onClose: () => void;
+  isOpen: boolean;
+}
+
+export default function TagManager({
+  tags,
+  usage,
+  onRecolor,
+  onRename,
+  onDelete,
+  onClose,
+  isOpen,
+}: TagManagerProps) {
+  const [names, setNames] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setNames(Object.fromEntries(tags.map((tag) => [tag.name, tag.name])));
+  }, [tags, isOpen]);
+
+  const commitRename = (tag: Tag) => {
+    const name = normalizeTag(names[tag.name] ?? "");
+    if (name && name !== tag.name) {
+      onRename(tag.name, name);
+    } else {
+      setNames({ ...names, [tag.name]: tag.name });
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+          />
+
+          {/* Modal */}
+          <motion.div
+            className="fixed inset-0 z-50 flex items-center justify-center p-4 pointer-events-none"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+          >
+            <motion.div
+              className="bg-gradient-to-br from-gray-900/95 to-blue-900/95 backdrop-blur-xl rounded-3xl border border-white/20 shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto pointer-events-auto"
+              initial={{ scale: 0.8, y: 50 }}
+              animate={{ scale: 1, y: 0 }}
+              exit={{ scale: 0.8, y: 50 }}
+              transition={{ type: "spring", stiffness: 300, damping: 25 }}
+            >
+              <div className="p-8 space-y-6">
+                <div>
+                  <h2 className="text-2xl font-bold text-white">Tags</h2>
+                  <p className="text-blue-200 mt-1">
+                    Rename a tag to an existing one to merge them
+                  </p>
+                </div>
+
+                {tags.length === 0 ? (
+                  <p className="text-sm text-blue-200">
+                    No tags yet. Add some to a task, or say &ldquo;tag it with
+                    work&rdquo;.
+                  </p>
+                ) : (
+                  <ul className="space-y-4">
+                    {tags.map((tag) => {
+                      const draft = normalizeTag(names[tag.name] ?? "");
+                      const merges =
+                        draft !== tag.name &&
+                        tags.some((other) => other.name === draft);
+                      return (
+                        <li key={tag.name} className="space-y-2">
+                          <div className="flex items-center gap-3">
+                            <input
+                              type="text"
+                              aria-label={`Rename ${tag.name}`}
+                              value={names[tag.name] ?? ""}
+                              onChange={(e) =>
+                                setNames({
+                                  ...names,
+                                  [tag.name]: e.target.value,
+                                })
+                              }
+                              onBlur={() => commitRename(tag)}
+                              onKeyDown={(e) => {
+                                if (e.key === "Enter") commitRename(tag);
+                              }}
+                              className="flex-1 px-4 py-2 bg-white/10 border border-white/20 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-300"
+                            />
+                            <span className="text-xs text-blue-200 w-16 text-right">
+                              {usage[tag.name] ?? 0}{" "}
+                              {usage[tag.name] === 1 ? "task" : "tasks"}
+                            </span>
+                            <button
+                              type="button"
+                              onClick={() => onDelete(tag.name)}
+                              className="p-2 text-red-300 hover:text-red-200 hover:bg-red-500/10 rounded-lg transition-all duration-300"
+                              title={`Delete ${tag.name}`}
+                            >
+                              ✕
+                            </button>
+                          </div>
+                          {merges && (
+                            <p className="text-xs text-yellow-300">
+                              Merges into &ldquo;{draft}&rdquo;
+                            </p>
+                          )}
+                          <div className="flex flex-wrap gap-2">
+                            {TAG_COLORS.map((color) => (
+                              <button
+                                key={color}
+                                type="button"
+                                onClick={() => onRecolor(tag.name, color)}
+                                className={`w-6 h-6 rounded-full border ${
+                                  tagColorClasses[color]
+                                } ${
+                                  tag.color === color
+                                    ? "ring-2 ring-white/70"
+                                    : ""
+                                }`}
+                                aria-label={`Color ${tag.name} ${color}`}
+                                aria-pressed={tag.color === color}
+                              />
+                            ))}
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+
+                <motion.button
+                  type="button"
+                  onClick={onClose}
+                  className="w-full bg-gray-600/30 text-gray-300 py-3 px-6 rounded-xl font-semibold border border-gray-500/30 hover:bg-gray-600/40 hover:text-white transition-all duration-300"
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                >
+                  Done
+                </motion.button>
+              </div>
+            </motion.div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -1,14 +1,43 @@
 "use client";
 
-import { Task, TaskFormData } from "@/types/task";
+import { findDependencyCycle } from "@/lib/dependencies";
+import { describeRecurrence, toRRule } from "@/lib/recurrence";
+import { parseTagList } from "@/lib/tags";
+import { toLocalDateString } from "@/lib/temporal";
+import { createSubtask } from "@/lib/utils";
+import { VoiceMemoRecording } from "@/lib/voice-memos";
+import VoiceMemoField from "@/components/VoiceMemoField";
+import { RecurrenceRule, Task, TaskFormData } from "@/types/task";
 import { useState, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 
 interface TaskFormProps {
   task?: Task;
-  onSubmit: (formData: TaskFormData) => void;
+  // voiceMemo: a new recording, null when the memo was removed, or
+  // undefined when it is unchanged
+  onSubmit: (formData: TaskFormData, voiceMemo?: VoiceMemoRecording | null) => void;
   onCancel: () => void;
   isOpen: boolean;
+  // Every task, to pick blockers from
+  tasks?: Task[];
+  onMemoRecordingChange?: (recording: boolean) => void;
+}
+
+const repeatOptions: Record<string, RecurrenceRule> = {
+  daily: { frequency: "daily", interval: 1 },
+  weekdays: { frequency: "weekly", interval: 1, byWeekday: [1, 2, 3, 4, 5] },
+  weekly: { frequency: "weekly", interval: 1 },
+  monthly: { frequency: "monthly", interval: 1 },
+  yearly: { frequency: "yearly", interval: 1 },
+};
+
+// Which option a rule is; rules made by voice may be none of them
+function repeatOptionFor(rule?: RecurrenceRule): string {
+  if (!rule) return "";
+  const option = Object.keys(repeatOptions).find(
+    (key) => toRRule(repeatOptions[key]) === toRRule(rule)
+  );
+  return option ?? "custom";
 }
 
 export default function TaskForm({
@@ -16,14 +45,18 @@ export default function TaskForm({
   onSubmit,
   onCancel,
   isOpen,
+  tasks = [],
+  onMemoRecordingChange,
 }: TaskFormProps) {
   const [formData, setFormData] = useState<TaskFormData>({
     title: "",
     description: "",
     priority: "medium",
-    category: "",
     dueDate: "",
   });
+  const [tagText, setTagText] = useState("");
+  const [newSubtask, setNewSubtask] = useState("");
+  const [voiceMemo, setVoiceMemo] = useState<VoiceMemoRecording | null | undefined>(undefined);
 
   useEffect(() => {
     if (task) {
@@ -31,33 +64,89 @@ export default function TaskForm({
         title: task.title,
         description: task.description || "",
         priority: task.priority,
-        category: task.category || "",
-        dueDate: task.dueDate
-          ? task.dueDate.toISOString().split("T")[0]
-          : "",
+        tags: task.tags,
+        dueDate: task.dueDate ? toLocalDateString(task.dueDate) : "",
+        dueTime: task.dueTime,
+        recurrence: task.recurrence,
+        subtasks: task.subtasks,
+        completeWithSubtasks: task.completeWithSubtasks,
+        blockedBy: task.blockedBy,
+        estimatedMinutes: task.estimatedMinutes,
       });
     } else {
       setFormData({
         title: "",
         description: "",
         priority: "medium",
-        category: "",
         dueDate: "",
       });
     }
+    setTagText(task?.tags?.join(", ") ?? "");
+    setNewSubtask("");
+    setVoiceMemo(undefined);
   }, [task, isOpen]);
 
+  const subtasks = formData.subtasks ?? [];
+
+  const handleAddSubtask = () => {
+    const title = newSubtask.trim();
+    if (!title) return;
+    setFormData({ ...formData, subtasks: [...subtasks, createSubtask(title)] });
+    setNewSubtask("");
+  };
+
+  const handleRemoveSubtask = (subtaskId: string) => {
+    setFormData({
+      ...formData,
+      subtasks: subtasks.filter((subtask) => subtask.id !== subtaskId),
+    });
+  };
+
+  const blockedBy = formData.blockedBy ?? [];
+  // Open tasks, and any finished ones this task is already linked to
+  const blockerOptions = tasks.filter(
+    (t) => t.id !== task?.id && (!t.completed || blockedBy.includes(t.id))
+  );
+
+  const handleToggleBlocker = (blockerId: string) => {
+    setFormData({
+      ...formData,
+      blockedBy: blockedBy.includes(blockerId)
+        ? blockedBy.filter((id) => id !== blockerId)
+        : [...blockedBy, blockerId],
+    });
+  };
+
+  // A memo's transcript becomes the description when there is none yet
+  const handleMemoRecorded = (recording: VoiceMemoRecording) => {
+    setVoiceMemo(recording);
+    if (recording.transcript) {
+      setFormData((data) => data.description?.trim() ? data : { ...data, description: recording.transcript });
+    }
+  };
+
+  const handleUseTranscript = (transcript: string) => {
+    setFormData((data) => ({
+      ...data,
+      description: data.description?.trim() ? `${data.description.trim()}\n\n${transcript}` : transcript,
+    }));
+  };
+
+  const attachedMemo = voiceMemo === undefined ? task?.voiceMemo : voiceMemo ?? undefined;
+  const transcriptUsed = !!voiceMemo?.transcript && !!formData.description?.includes(voiceMemo.transcript);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (formData.title.trim()) {
-      onSubmit(formData);
+      onSubmit({ ...formData, tags: parseTagList(tagText) }, voiceMemo);
       setFormData({
         title: "",
         description: "",
         priority: "medium",
-        category: "",
         dueDate: "",
       });
+      setTagText("");
+      setVoiceMemo(undefined);
     }
   };
 
@@ -151,7 +240,26 @@ export default function TaskForm({
                     />
                   </motion.div>
 
-                  {/* Priority & Category Row */}
+                  {/* Voice Memo */}
+                  <motion.div
+                    initial={{ opacity: 0, x: -20 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    transition={{ delay: 0.25 }}
+                  >
+                    <span className="block text-sm font-semibold text-white mb-2">
+                      Voice Memo
+                    </span>
+                    <VoiceMemoField
+                      memo={attachedMemo}
+                      recording={voiceMemo ?? undefined}
+                      onRecorded={handleMemoRecorded}
+                      onRemove={() => setVoiceMemo(null)}
+                      onRecordingChange={onMemoRecordingChange}
+                      onUseTranscript={transcriptUsed ? undefined : handleUseTranscript}
+                    />
+                  </motion.div>
+
+                  {/* Priority & Tags Row */}
                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
                     <motion.div
                       initial={{ opacity: 0, x: -20 }}
@@ -178,38 +286,215 @@ export default function TaskForm({
                       animate={{ opacity: 1, x: 0 }}
                       transition={{ delay: 0.4 }}
                     >
-                      <label htmlFor="category" className="block text-sm font-semibold text-white mb-2">
-                        Category
+                      <label htmlFor="tags" className="block text-sm font-semibold text-white mb-2">
+                        Tags
                       </label>
                       <input
                         type="text"
-                        id="category"
-                        value={formData.category}
-                        onChange={(e) => setFormData({ ...formData, category: e.target.value })}
+                        id="tags"
+                        value={tagText}
+                        onChange={(e) => setTagText(e.target.value)}
                         className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white placeholder-blue-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-300 backdrop-blur-sm"
-                        placeholder="Work, Personal, etc."
+                        placeholder="work, urgent, client"
                       />
                     </motion.div>
                   </div>
 
-                  {/* Due Date */}
+                  {/* Due Date & Repeat Row */}
                   <motion.div
+                    className="grid grid-cols-1 sm:grid-cols-2 gap-6"
                     initial={{ opacity: 0, y: 20 }}
                     animate={{ opacity: 1, y: 0 }}
                     transition={{ delay: 0.5 }}
                   >
-                    <label htmlFor="dueDate" className="block text-sm font-semibold text-white mb-2">
-                      Due Date
+                    <div>
+                      <label htmlFor="dueDate" className="block text-sm font-semibold text-white mb-2">
+                        Due Date
+                      </label>
+                      <input
+                        type="date"
+                        id="dueDate"
+                        value={formData.dueDate}
+                        onChange={(e) => setFormData({ ...formData, dueDate: e.target.value })}
+                        className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-300 backdrop-blur-sm"
+                      />
+                      {formData.dueDate && (
+                        <div className="flex items-center gap-3 mt-3">
+                          <label className="flex items-center gap-2 text-sm text-blue-200 cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={!formData.dueTime}
+                              onChange={(e) => setFormData({ ...formData, dueTime: e.target.checked ? undefined : "09:00" })}
+                              className="w-4 h-4 accent-blue-500"
+                            />
+                            All day
+                          </label>
+                          {formData.dueTime && (
+                            <input
+                              type="time"
+                              aria-label="Due time"
+                              value={formData.dueTime}
+                              onChange={(e) => setFormData({ ...formData, dueTime: e.target.value || undefined })}
+                              className="flex-1 min-w-0 px-4 py-2 bg-white/10 border border-white/20 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-300 backdrop-blur-sm"
+                            />
+                          )}
+                        </div>
+                      )}
+                    </div>
+
+                    <div>
+                      <label htmlFor="repeat" className="block text-sm font-semibold text-white mb-2">
+                        Repeat
+                      </label>
+                      <select
+                        id="repeat"
+                        value={repeatOptionFor(formData.recurrence)}
+                        onChange={(e) => setFormData({ ...formData, recurrence: repeatOptions[e.target.value] })}
+                        className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-300 backdrop-blur-sm"
+                      >
+                        <option value="" className="bg-gray-800">Does not repeat</option>
+                        <option value="daily" className="bg-gray-800">Every day</option>
+                        <option value="weekdays" className="bg-gray-800">Every weekday</option>
+                        <option value="weekly" className="bg-gray-800">Every week</option>
+                        <option value="monthly" className="bg-gray-800">Every month</option>
+                        <option value="yearly" className="bg-gray-800">Every year</option>
+                        {formData.recurrence && repeatOptionFor(formData.recurrence) === "custom" && (
+                          <option value="custom" className="bg-gray-800">
+                            {describeRecurrence(formData.recurrence)}
+                          </option>
+                        )}
+                      </select>
+                    </div>
+                  </motion.div>
+
+                  {/* Estimate */}
+                  <motion.div
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: 0.52 }}
+                  >
+                    <label htmlFor="estimate" className="block text-sm font-semibold text-white mb-2">
+                      Estimate (minutes)
                     </label>
                     <input
-                      type="date"
-                      id="dueDate"
-                      value={formData.dueDate}
-                      onChange={(e) => setFormData({ ...formData, dueDate: e.target.value })}
-                      className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-300 backdrop-blur-sm"
+                      type="number"
+                      id="estimate"
+                      min={1}
+                      step={5}
+                      value={formData.estimatedMinutes ?? ""}
+                      onChange={(e) => setFormData({ ...formData, estimatedMinutes: e.target.value ? Math.max(1, parseInt(e.target.value)) : undefined })}
+                      className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white placeholder-blue-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-300 backdrop-blur-sm"
+                      placeholder="How long should this take?"
                     />
                   </motion.div>
 
+                  {/* Steps */}
+                  <motion.div
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: 0.55 }}
+                  >
+                    <label htmlFor="newSubtask" className="block text-sm font-semibold text-white mb-2">
+                      Steps
+                    </label>
+                    {subtasks.length > 0 && (
+                      <ul className="space-y-2 mb-3">
+                        {subtasks.map((subtask) => (
+                          <li
+                            key={subtask.id}
+                            className="flex items-center justify-between gap-3 px-4 py-2 bg-white/5 border border-white/10 rounded-xl text-sm"
+                          >
+                            <span className={subtask.completed ? "line-through text-white/40" : "text-blue-100"}>
+                              {subtask.title}
+                            </span>
+                            <button
+                              type="button"
+                              onClick={() => handleRemoveSubtask(subtask.id)}
+                              className="text-red-300 hover:text-red-200 transition-colors duration-300"
+                              title="Remove step"
+                            >
+                              ✕
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    <div className="flex gap-3">
+                      <input
+                        type="text"
+                        id="newSubtask"
+                        value={newSubtask}
+                        onChange={(e) => setNewSubtask(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") {
+                            e.preventDefault();
+                            handleAddSubtask();
+                          }
+                        }}
+                        className="flex-1 px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white placeholder-blue-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-300 backdrop-blur-sm"
+                        placeholder="Add a step..."
+                      />
+                      <button
+                        type="button"
+                        onClick={handleAddSubtask}
+                        className="px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white font-semibold hover:bg-white/20 transition-all duration-300"
+                      >
+                        Add
+                      </button>
+                    </div>
+                    {subtasks.length > 0 && (
+                      <label className="flex items-center gap-3 mt-3 text-sm text-blue-200 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={formData.completeWithSubtasks ?? false}
+                          onChange={(e) => setFormData({ ...formData, completeWithSubtasks: e.target.checked })}
+                          className="w-4 h-4 accent-blue-500"
+                        />
+                        Complete the task when all steps are done
+                      </label>
+                    )}
+                  </motion.div>
+
+                  {/* Blocked By */}
+                  {blockerOptions.length > 0 && (
+                    <motion.div
+                      initial={{ opacity: 0, y: 20 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      transition={{ delay: 0.58 }}
+                    >
+                      <span className="block text-sm font-semibold text-white mb-2">
+                        Blocked By
+                      </span>
+                      <ul className="space-y-2 max-h-40 overflow-y-auto">
+                        {blockerOptions.map((option) => {
+                          // Only a task being edited can already be something's blocker
+                          const cycle = task && !blockedBy.includes(option.id)
+                            ? findDependencyCycle(tasks, task.id, option.id)
+                            : null;
+                          return (
+                            <li key={option.id}>
+                              <label
+                                className={`flex items-center gap-3 text-sm ${cycle ? "text-white/40 cursor-not-allowed" : "text-blue-100 cursor-pointer"}`}
+                                title={cycle ? `"${option.title}" already waits on this task` : undefined}
+                              >
+                                <input
+                                  type="checkbox"
+                                  checked={blockedBy.includes(option.id)}
+                                  onChange={() => handleToggleBlocker(option.id)}
+                                  disabled={!!cycle}
+                                  className="w-4 h-4 accent-blue-500"
+                                />
+                                <span className={option.completed ? "line-through" : ""}>
+                                  {option.title}
+                                </span>
+                              </label>
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    </motion.div>
+                  )}
+
                   {/* Action Buttons */}
                   <motion.div
                     className="flex flex-col sm:flex-row gap-4 pt-6"
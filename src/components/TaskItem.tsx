@@ -1,7 +1,14 @@
 "use client";
 
+import { activitySourceLabels, describeActivity } from "@/lib/activity";
+import { formatDue, isOverdue } from "@/lib/deadlines";
+import { describeRecurrence, toRRule } from "@/lib/recurrence";
+import { TagColor, tagColorClasses } from "@/lib/tags";
+import { formatDuration, isTimerRunning, trackedMs } from "@/lib/time-tracking";
+import { subtaskProgress } from "@/lib/utils";
+import { formatMemoLength } from "@/lib/voice-memos";
 import { Task } from "@/types/task";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { motion } from "framer-motion";
 
 interface TaskItemProps {
@@ -9,6 +16,15 @@ interface TaskItemProps {
   onToggleComplete: (id: string) => void;
   onDelete: (id: string) => void;
   onEdit: (task: Task) => void;
+  onToggleSubtask?: (taskId: string, subtaskId: string) => void;
+  tagColors?: Record<string, TagColor>;
+  // Open tasks this one is waiting on
+  blockers?: Task[];
+  onToggleTimer?: (taskId: string) => void;
+  // Settles once the memo has finished playing
+  onPlayMemo?: (taskId: string) => Promise<void>;
+  // Offered once the task is completed
+  onArchive?: (taskId: string) => void;
 }
 
 export default function TaskItem({
@@ -16,8 +32,31 @@ export default function TaskItem({
   onToggleComplete,
   onDelete,
   onEdit,
+  onToggleSubtask,
+  tagColors = {},
+  blockers = [],
+  onToggleTimer,
+  onPlayMemo,
+  onArchive,
 }: TaskItemProps) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [showSubtasks, setShowSubtasks] = useState(false);
+  const [showActivity, setShowActivity] = useState(false);
+  const [, setTick] = useState(0);
+  const [isPlayingMemo, setIsPlayingMemo] = useState(false);
+  const isTiming = isTimerRunning(task);
+  const tracked = trackedMs(task);
+
+  // Re-render every second so a running timer counts up
+  useEffect(() => {
+    if (!isTiming) return;
+    const interval = setInterval(() => setTick((tick) => tick + 1), 1000);
+    return () => clearInterval(interval);
+  }, [isTiming]);
+  const subtasks = task.subtasks ?? [];
+  const { done, total } = subtaskProgress(task);
+  // Newest first
+  const activity = [...(task.activity ?? [])].reverse();
 
   const getPriorityGradient = (priority: string) => {
     switch (priority) {
@@ -45,15 +84,29 @@ export default function TaskItem({
     }
   };
 
-  const formatDate = (date: Date) => {
-    return new Date(date).toLocaleDateString("en-US", {
-      year: "numeric",
+  const handlePlayMemo = async () => {
+    if (!onPlayMemo) return;
+    setIsPlayingMemo(true);
+    try {
+      await onPlayMemo(task.id);
+    } catch (error) {
+      console.error("Error playing voice memo:", error);
+    } finally {
+      setIsPlayingMemo(false);
+    }
+  };
+
+  const formatActivityTime = (date: Date) => {
+    return new Date(date).toLocaleString("en-US", {
       month: "short",
       day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
     });
   };
 
-  const isOverdue = task.dueDate && new Date(task.dueDate) < new Date() && !task.completed;
+  const overdue = isOverdue(task);
+  const isWaiting = blockers.length > 0 && !task.completed;
 
   return (
     <motion.div
@@ -61,7 +114,7 @@ export default function TaskItem({
         task.priority
       )} backdrop-blur-sm rounded-2xl p-6 border transition-all duration-300 hover:shadow-2xl group ${
         task.completed ? 'opacity-75' : ''
-      }`}
+      } ${isWaiting ? 'border-dashed opacity-80' : ''}`}
       whileHover={{ scale: 1.02, y: -2 }}
       layout
     >
@@ -139,6 +192,104 @@ export default function TaskItem({
               </motion.div>
             )}
 
+            {/* Blockers */}
+            {isWaiting && (
+              <p className="flex items-center gap-2 text-sm text-orange-200 mb-4">
+                <span aria-hidden>🔒</span>
+                <span>
+                  Waiting on{" "}
+                  {blockers.map((blocker, index) => (
+                    <span key={blocker.id}>
+                      {index > 0 && ", "}
+                      <span className="font-semibold">{blocker.title}</span>
+                    </span>
+                  ))}
+                </span>
+              </p>
+            )}
+
+            {/* Checklist */}
+            {total > 0 && (
+              <div className="mb-4">
+                <button
+                  onClick={() => setShowSubtasks(!showSubtasks)}
+                  className="w-full text-left"
+                  title={showSubtasks ? "Hide steps" : "Show steps"}
+                >
+                  <div className="flex justify-between text-xs font-semibold text-blue-200 mb-1">
+                    <span>{showSubtasks ? "▾" : "▸"} Steps</span>
+                    <span>
+                      {done} of {total} done
+                    </span>
+                  </div>
+                  <div className="h-2 rounded-full bg-white/10 overflow-hidden">
+                    <motion.div
+                      className="h-full bg-gradient-to-r from-green-500 to-emerald-500"
+                      initial={false}
+                      animate={{ width: `${(done / total) * 100}%` }}
+                      transition={{ duration: 0.4 }}
+                    />
+                  </div>
+                </button>
+
+                {showSubtasks && (
+                  <ul className="mt-3 space-y-2">
+                    {subtasks.map((subtask) => (
+                      <li key={subtask.id}>
+                        <label className="flex items-center gap-3 text-sm cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={subtask.completed}
+                            onChange={() => onToggleSubtask?.(task.id, subtask.id)}
+                            disabled={!onToggleSubtask}
+                            className="w-4 h-4 accent-green-500"
+                          />
+                          <span
+                            className={
+                              subtask.completed
+                                ? "line-through text-white/40"
+                                : "text-blue-100"
+                            }
+                          >
+                            {subtask.title}
+                          </span>
+                        </label>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {/* History */}
+            {activity.length > 0 && (
+              <div className="mb-4">
+                <button
+                  onClick={() => setShowActivity(!showActivity)}
+                  className="text-xs font-semibold text-blue-200 hover:text-blue-100 transition-colors duration-300"
+                  title={showActivity ? "Hide history" : "Show history"}
+                >
+                  {showActivity ? "▾" : "▸"} History ({activity.length})
+                </button>
+
+                {showActivity && (
+                  <ol className="mt-2 space-y-1 max-h-48 overflow-y-auto border-l border-white/10 pl-3">
+                    {activity.map((entry) => (
+                      <li key={entry.id} className="text-xs text-blue-100">
+                        <span className="text-blue-300/70">
+                          {formatActivityTime(entry.at)}
+                        </span>{" "}
+                        {describeActivity(entry)}{" "}
+                        <span className={entry.source === "voice" ? "text-pink-300" : "text-blue-300/70"}>
+                          {activitySourceLabels[entry.source]}
+                        </span>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+            )}
+
             <div className="flex flex-wrap items-center gap-3 mt-4">
               <motion.span
                 className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold border ${getPriorityColor(
@@ -149,28 +300,96 @@ export default function TaskItem({
                 {task.priority.toUpperCase()}
               </motion.span>
 
-              {task.category && (
+              {!task.completed && task.status === "in-progress" && (
+                <motion.span
+                  className="inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold border bg-blue-500/20 text-blue-300 border-blue-400/40"
+                  whileHover={{ scale: 1.1 }}
+                >
+                  IN PROGRESS
+                </motion.span>
+              )}
+
+              {!task.completed && task.status === "blocked" && (
                 <motion.span
-                  className="inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold bg-blue-500/20 text-blue-300 border border-blue-400/40"
+                  className="inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold border bg-red-500/20 text-red-300 border-red-400/40"
                   whileHover={{ scale: 1.1 }}
                 >
-                  {task.category}
+                  BLOCKED
                 </motion.span>
               )}
 
+              {task.tags?.map((tag) => (
+                <motion.span
+                  key={tag}
+                  className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold border ${
+                    tagColorClasses[tagColors[tag] ?? "blue"]
+                  }`}
+                  whileHover={{ scale: 1.1 }}
+                >
+                  #{tag}
+                </motion.span>
+              ))}
+
               {task.dueDate && (
                 <motion.span
                   className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold border ${
-                    isOverdue
+                    overdue
                       ? "bg-red-500/20 text-red-300 border-red-400/40 animate-pulse"
                       : "bg-purple-500/20 text-purple-300 border-purple-400/40"
                   }`}
                   whileHover={{ scale: 1.1 }}
                 >
-                  {isOverdue ? "⚠ Overdue: " : "Due: "}
-                  {formatDate(task.dueDate)}
+                  {overdue ? "⚠ Overdue: " : "Due: "}
+                  {formatDue(task)}
+                </motion.span>
+              )}
+
+              {task.recurrence && (
+                <motion.span
+                  className="inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold bg-teal-500/20 text-teal-300 border border-teal-400/40"
+                  whileHover={{ scale: 1.1 }}
+                  title={`RRULE:${toRRule(task.recurrence)}`}
+                >
+                  ↻ {describeRecurrence(task.recurrence)}
                 </motion.span>
               )}
+
+              {((onToggleTimer && !task.completed) || tracked > 0 || !!task.estimatedMinutes) && (
+                <motion.button
+                  onClick={() => onToggleTimer?.(task.id)}
+                  disabled={!onToggleTimer || task.completed}
+                  className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold border transition-all duration-300 ${
+                    isTiming
+                      ? "bg-blue-500/30 text-blue-100 border-blue-400/60 animate-pulse"
+                      : task.estimatedMinutes && tracked > task.estimatedMinutes * 60000
+                      ? "bg-orange-500/20 text-orange-300 border-orange-400/40"
+                      : "bg-white/10 text-blue-200 border-white/20"
+                  }`}
+                  whileHover={{ scale: 1.1 }}
+                  title={isTiming ? "Stop timer" : task.completed ? "Time tracked" : "Start timer"}
+                >
+                  {isTiming ? "■ " : task.completed ? "⏱ " : "▶ "}
+                  {formatDuration(tracked, isTiming)}
+                  {task.estimatedMinutes ? ` / ${formatDuration(task.estimatedMinutes * 60000)} est.` : ""}
+                </motion.button>
+              )}
+
+              {task.voiceMemo && onPlayMemo && (
+                <motion.button
+                  onClick={handlePlayMemo}
+                  disabled={isPlayingMemo}
+                  className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold border transition-all duration-300 ${
+                    isPlayingMemo
+                      ? "bg-pink-500/30 text-pink-100 border-pink-400/60 animate-pulse"
+                      : "bg-pink-500/20 text-pink-300 border-pink-400/40"
+                  }`}
+                  whileHover={{ scale: 1.1 }}
+                  title="Play voice memo"
+                >
+                  {isPlayingMemo ? "🔊 Playing " : "🎙 Memo "}
+                  {formatMemoLength(task.voiceMemo.durationMs)}
+                </motion.button>
+              )}
             </div>
           </div>
         </div>
@@ -194,12 +413,31 @@ export default function TaskItem({
             </svg>
           </motion.button>
 
+          {task.completed && onArchive && (
+            <motion.button
+              onClick={() => onArchive(task.id)}
+              className="p-2 text-teal-300 hover:text-teal-200 hover:bg-teal-500/10 rounded-lg transition-all duration-300"
+              whileHover={{ scale: 1.1, rotate: 5 }}
+              whileTap={{ scale: 0.9 }}
+              title="Archive task"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4"
+                />
+              </svg>
+            </motion.button>
+          )}
+
           <motion.button
             onClick={() => onDelete(task.id)}
             className="p-2 text-red-300 hover:text-red-200 hover:bg-red-500/10 rounded-lg transition-all duration-300"
             whileHover={{ scale: 1.1, rotate: -5 }}
             whileTap={{ scale: 0.9 }}
-            title="Delete task"
+            title="Move to trash"
           >
             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path
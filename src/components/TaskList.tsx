@@ -1,6 +1,10 @@
 "use client";
 
-import { Task } from "@/types/task";
+import { openBlockers } from "@/lib/dependencies";
+import { OrderPosition } from "@/lib/ordering";
+import { TagColor, mergeTags, tagColorClasses } from "@/lib/tags";
+import { applyTaskListView, defaultTaskListView } from "@/lib/utils";
+import { Task, TaskListView } from "@/types/task";
 import { AnimatePresence, motion } from "framer-motion";
 import { useState } from "react";
 import TaskItem from "./TaskItem";
@@ -10,6 +14,17 @@ interface TaskListProps {
   onToggleComplete: (id: string) => void;
   onDelete: (id: string) => void;
   onEdit: (task: Task) => void;
+  onToggleSubtask?: (taskId: string, subtaskId: string) => void;
+  onToggleTimer?: (taskId: string) => void;
+  onPlayMemo?: (taskId: string) => Promise<void>;
+  onArchive?: (taskId: string) => void;
+  // Drag-and-drop and arrow keys on the handle; off without it
+  onReorder?: (taskId: string, position: OrderPosition) => void;
+  // Colors from the tag registry; tags without one are blue
+  tagColors?: Record<string, TagColor>;
+  // Pass both to control the filter and search from outside (e.g. voice)
+  view?: TaskListView;
+  onViewChange?: (view: TaskListView) => void;
 }
 
 export default function TaskList({
@@ -17,24 +32,82 @@ export default function TaskList({
   onToggleComplete,
   onDelete,
   onEdit,
+  onToggleSubtask,
+  onToggleTimer,
+  onPlayMemo,
+  onArchive,
+  onReorder,
+  tagColors = {},
+  view: controlledView,
+  onViewChange,
 }: TaskListProps) {
-  const [filter, setFilter] = useState<"all" | "active" | "completed">("all");
-  const [search, setSearch] = useState("");
+  const [localView, setLocalView] = useState<TaskListView>(defaultTaskListView);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{
+    id: string;
+    placement: "before" | "after";
+  } | null>(null);
+  const view = controlledView ?? localView;
+  const { filter, priority, search } = view;
+  const selectedTags = view.tags ?? [];
 
-  const filteredTasks = tasks.filter((task) => {
-    const matchesFilter =
-      filter === "all" ||
-      (filter === "active" && !task.completed) ||
-      (filter === "completed" && task.completed);
+  const changeView = (changes: Partial<TaskListView>) => {
+    const next = { ...view, ...changes };
+    if (onViewChange) {
+      onViewChange(next);
+    } else {
+      setLocalView(next);
+    }
+  };
+
+  const filteredTasks = applyTaskListView(tasks, view);
+  const isFiltered =
+    filter !== "all" ||
+    priority !== undefined ||
+    selectedTags.length > 0 ||
+    search !== "";
 
-    const matchesSearch =
-      search === "" ||
-      task.title.toLowerCase().includes(search.toLowerCase()) ||
-      task.description?.toLowerCase().includes(search.toLowerCase()) ||
-      task.category?.toLowerCase().includes(search.toLowerCase());
+  // Moves are made against the tasks in view, so tasks hidden by the
+  // filters keep their places
+  const handleDrop = (targetId: string, taskId: string) => {
+    if (dropTarget && taskId && taskId !== targetId) {
+      onReorder?.(
+        taskId,
+        dropTarget.placement === "before"
+          ? { before: targetId }
+          : { after: targetId }
+      );
+    }
+    setDraggedId(null);
+    setDropTarget(null);
+  };
+
+  const handleReorderKey = (e: React.KeyboardEvent, index: number) => {
+    const task = filteredTasks[index];
+    if (e.key === "ArrowUp" && index > 0) {
+      e.preventDefault();
+      onReorder?.(task.id, { before: filteredTasks[index - 1].id });
+    } else if (e.key === "ArrowDown" && index < filteredTasks.length - 1) {
+      e.preventDefault();
+      onReorder?.(task.id, { after: filteredTasks[index + 1].id });
+    } else if (e.key === "Home") {
+      e.preventDefault();
+      onReorder?.(task.id, "top");
+    } else if (e.key === "End") {
+      e.preventDefault();
+      onReorder?.(task.id, "bottom");
+    }
+  };
 
-    return matchesFilter && matchesSearch;
-  });
+  const allTags = mergeTags(...tasks.map((task) => task.tags)).sort();
+
+  // Every selected tag has to be on a task for it to show
+  const toggleTag = (tag: string) =>
+    changeView({
+      tags: selectedTags.includes(tag)
+        ? selectedTags.filter((selected) => selected !== tag)
+        : [...selectedTags, tag],
+    });
 
   const taskCounts = {
     all: tasks.length,
@@ -101,7 +174,7 @@ export default function TaskList({
               type="text"
               placeholder="Search your universe of tasks..."
               value={search}
-              onChange={(e) => setSearch(e.target.value)}
+              onChange={(e) => changeView({ search: e.target.value })}
               className="w-full px-6 py-4 bg-white/10 backdrop-blur-sm border border-white/20 rounded-2xl text-white placeholder-blue-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-300"
               whileFocus={{ scale: 1.02 }}
             />
@@ -127,7 +200,7 @@ export default function TaskList({
           {(["all", "active", "completed"] as const).map((filterOption) => (
             <motion.button
               key={filterOption}
-              onClick={() => setFilter(filterOption)}
+              onClick={() => changeView({ filter: filterOption })}
               className={`px-6 py-3 text-sm font-semibold rounded-xl transition-all duration-300 ${
                 filter === filterOption
                   ? "bg-gradient-to-r from-blue-500 to-purple-500 text-white shadow-lg"
@@ -152,6 +225,74 @@ export default function TaskList({
         </div>
       </motion.div>
 
+      {/* Tag Filter */}
+      {allTags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm font-semibold text-blue-200 mr-1">
+            Tags
+          </span>
+          {allTags.map((tag) => (
+            <motion.button
+              key={tag}
+              onClick={() => toggleTag(tag)}
+              className={`px-3 py-1 text-xs font-semibold rounded-full border transition-all duration-300 ${
+                tagColorClasses[tagColors[tag] ?? "blue"]
+              } ${
+                selectedTags.includes(tag)
+                  ? "ring-2 ring-white/60"
+                  : "opacity-60 hover:opacity-100"
+              }`}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              aria-pressed={selectedTags.includes(tag)}
+            >
+              #{tag}
+            </motion.button>
+          ))}
+        </div>
+      )}
+
+      {/* Active Filters */}
+      {isFiltered && (
+        <div className="flex flex-wrap items-center gap-3">
+          {priority && (
+            <motion.button
+              onClick={() => changeView({ priority: undefined })}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-full bg-white/10 border border-white/20 text-blue-100 hover:bg-white/20 transition-all duration-300"
+              initial={{ opacity: 0, scale: 0.8 }}
+              animate={{ opacity: 1, scale: 1 }}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              aria-label="Remove priority filter"
+            >
+              {priority.charAt(0).toUpperCase() + priority.slice(1)} priority
+              <span aria-hidden="true">&times;</span>
+            </motion.button>
+          )}
+          {selectedTags.map((tag) => (
+            <motion.button
+              key={tag}
+              onClick={() => toggleTag(tag)}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-full bg-white/10 border border-white/20 text-blue-100 hover:bg-white/20 transition-all duration-300"
+              initial={{ opacity: 0, scale: 0.8 }}
+              animate={{ opacity: 1, scale: 1 }}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              aria-label={`Remove tag filter ${tag}`}
+            >
+              #{tag}
+              <span aria-hidden="true">&times;</span>
+            </motion.button>
+          ))}
+          <button
+            onClick={() => changeView(defaultTaskListView)}
+            className="text-sm text-blue-200 hover:text-white underline-offset-4 hover:underline transition-colors duration-300"
+          >
+            Clear filters
+          </button>
+        </div>
+      )}
+
       {/* Task Statistics */}
       {tasks.length > 0 && (
         <motion.div
@@ -224,12 +365,80 @@ export default function TaskList({
                   stiffness: 100,
                 }}
               >
-                <TaskItem
-                  task={task}
-                  onToggleComplete={onToggleComplete}
-                  onDelete={onDelete}
-                  onEdit={onEdit}
-                />
+                <div
+                  draggable={!!onReorder}
+                  onDragStart={(e) => {
+                    e.dataTransfer.setData("text/plain", task.id);
+                    e.dataTransfer.effectAllowed = "move";
+                    setDraggedId(task.id);
+                  }}
+                  onDragEnd={() => {
+                    setDraggedId(null);
+                    setDropTarget(null);
+                  }}
+                  onDragOver={(e) => {
+                    if (!onReorder || !draggedId) return;
+                    e.preventDefault();
+                    e.dataTransfer.dropEffect = "move";
+                    // The upper half drops above the task, the lower below
+                    const box = e.currentTarget.getBoundingClientRect();
+                    const placement =
+                      e.clientY < box.top + box.height / 2 ? "before" : "after";
+                    if (
+                      dropTarget?.id !== task.id ||
+                      dropTarget.placement !== placement
+                    ) {
+                      setDropTarget({ id: task.id, placement });
+                    }
+                  }}
+                  onDragLeave={(e) => {
+                    if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+                      setDropTarget(null);
+                    }
+                  }}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    handleDrop(task.id, e.dataTransfer.getData("text/plain"));
+                  }}
+                  className={`relative flex items-stretch gap-2 transition-opacity duration-300 ${
+                    draggedId === task.id ? "opacity-40" : ""
+                  }`}
+                >
+                  {dropTarget?.id === task.id && draggedId !== task.id && (
+                    <div
+                      className={`absolute left-0 right-0 h-1 rounded-full bg-blue-400 ${
+                        dropTarget.placement === "before"
+                          ? "-top-2.5"
+                          : "-bottom-2.5"
+                      }`}
+                    />
+                  )}
+                  {onReorder && (
+                    <button
+                      type="button"
+                      onKeyDown={(e) => handleReorderKey(e, index)}
+                      className="px-1 text-blue-300/60 hover:text-white focus:text-white cursor-grab active:cursor-grabbing rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors duration-300"
+                      title="Drag to reorder, or use the arrow keys"
+                      aria-label={`Reorder ${task.title}`}
+                    >
+                      ⋮⋮
+                    </button>
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <TaskItem
+                      task={task}
+                      onToggleComplete={onToggleComplete}
+                      onDelete={onDelete}
+                      onEdit={onEdit}
+                      onToggleSubtask={onToggleSubtask}
+                      tagColors={tagColors}
+                      blockers={openBlockers(task, tasks)}
+                      onToggleTimer={onToggleTimer}
+                      onPlayMemo={onPlayMemo}
+                      onArchive={onArchive}
+                    />
+                  </div>
+                </div>
               </motion.div>
             ))}
           </AnimatePresence>
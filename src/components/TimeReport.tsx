@@ -0,0 +1,163 @@
+"use client";
+
+import { formatDuration, timeReport, trackedMs } from "@/lib/time-tracking";
+import { Task } from "@/types/task";
+import { AnimatePresence, motion } from "framer-motion";
+
+interface TimeReportProps {
+  tasks: Task[];
+  onClose: () => void;
+  isOpen: boolean;
+}
+
+const MINUTE = 60 * 1000;
+
+export default function TimeReport({
+  tasks,
+  onClose,
+  isOpen,
+}: TimeReportProps) {
+  const rows = timeReport(tasks);
+  // Per task, so a task with several tags is only counted once
+  const totalTracked = tasks.reduce(
+    (total, task) => total + trackedMs(task),
+    0
+  );
+  const trackedTasks = tasks.filter((task) => trackedMs(task) > 0).length;
+
+  // "+25m over", "10m under", "on estimate"
+  const describeDifference = (estimated: number, actual: number) => {
+    const difference = Math.round(actual - estimated);
+    if (difference === 0) return { text: "on estimate", over: false };
+    return {
+      text: `${formatDuration(Math.abs(difference) * MINUTE)} ${
+        difference > 0 ? "over" : "under"
+      }`,
+      over: difference > 0,
+    };
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+          />
+
+          {/* Modal */}
+          <motion.div
+            className="fixed inset-0 z-50 flex items-center justify-center p-4 pointer-events-none"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+          >
+            <motion.div
+              className="bg-gradient-to-br from-gray-900/95 to-blue-900/95 backdrop-blur-xl rounded-3xl border border-white/20 shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto pointer-events-auto"
+              initial={{ scale: 0.8, y: 50 }}
+              animate={{ scale: 1, y: 0 }}
+              exit={{ scale: 0.8, y: 50 }}
+              transition={{ type: "spring", stiffness: 300, damping: 25 }}
+            >
+              <div className="p-8 space-y-6">
+                <div>
+                  <h2 className="text-2xl font-bold text-white">Time Report</h2>
+                  <p className="text-blue-200 mt-1">
+                    Estimated versus actual time by tag
+                  </p>
+                </div>
+
+                {rows.length === 0 ? (
+                  <p className="text-sm text-blue-200">
+                    No time tracked yet. Start a timer on a task, or say
+                    &ldquo;start timer on&rdquo; and the task&apos;s name.
+                  </p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-blue-200 border-b border-white/10">
+                        <th className="py-2 font-semibold">Tag</th>
+                        <th className="py-2 font-semibold text-right">Tasks</th>
+                        <th className="py-2 font-semibold text-right">
+                          Estimated
+                        </th>
+                        <th className="py-2 font-semibold text-right">
+                          Actual
+                        </th>
+                        <th className="py-2 font-semibold text-right">
+                          Difference
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {rows.map((row) => {
+                        const difference =
+                          row.estimatedMinutes > 0
+                            ? describeDifference(
+                                row.estimatedMinutes,
+                                row.actualOnEstimatedMinutes
+                              )
+                            : null;
+                        return (
+                          <tr
+                            key={row.tag}
+                            className="border-b border-white/5 text-white"
+                          >
+                            <td className="py-2">#{row.tag}</td>
+                            <td className="py-2 text-right">{row.tasks}</td>
+                            <td className="py-2 text-right">
+                              {row.estimatedMinutes > 0
+                                ? formatDuration(row.estimatedMinutes * MINUTE)
+                                : "—"}
+                            </td>
+                            <td className="py-2 text-right">
+                              {formatDuration(row.actualMinutes * MINUTE)}
+                            </td>
+                            <td
+                              className={`py-2 text-right ${
+                                !difference
+                                  ? "text-blue-200"
+                                  : difference.over
+                                  ? "text-orange-300"
+                                  : "text-green-300"
+                              }`}
+                              title="Compared over the tasks that have an estimate"
+                            >
+                              {difference?.text ?? "—"}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                )}
+
+                {totalTracked > 0 && (
+                  <p className="text-sm text-blue-200">
+                    {formatDuration(totalTracked)} tracked across{" "}
+                    {trackedTasks} {trackedTasks === 1 ? "task" : "tasks"}
+                  </p>
+                )}
+
+                <motion.button
+                  type="button"
+                  onClick={onClose}
+                  className="w-full bg-gray-600/30 text-gray-300 py-3 px-6 rounded-xl font-semibold border border-gray-500/30 hover:bg-gray-600/40 hover:text-white transition-all duration-300"
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                >
+                  Done
+                </motion.button>
+              </div>
+            </motion.div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,248 @@
+"use client";
+
+import { purgeDate, TrashSettings } from "@/lib/trash";
+import { filterTasks } from "@/lib/utils";
+import { Task } from "@/types/task";
+import { AnimatePresence, motion } from "framer-motion";
+import { useState } from "react";
+
+interface TrashAndArchiveProps {
+  trash: Task[];
+  archive: Task[];
+  settings: TrashSettings;
+  onRestore: (taskId: string) => void;
+  // Deletes for good
+  onPurge: (taskIds: string[]) => void;
+  onUnarchive: (taskId: string) => void;
+  onSettingsChange: (settings: TrashSettings) => void;
+  onClose: () => void;
+  isOpen: boolean;
+}
+
+const retentionOptions = [7, 14, 30, 90, 0];
+
+const formatDate = (date: Date) =>
+  new Date(date).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+
+export default function TrashAndArchive({
+  trash,
+  archive,
+  settings,
+  onRestore,
+  onPurge,
+  onUnarchive,
+  onSettingsChange,
+  onClose,
+  isOpen,
+}: TrashAndArchiveProps) {
+  const [tab, setTab] = useState<"trash" | "archive">("trash");
+  const [search, setSearch] = useState("");
+
+  // Most recently removed first
+  const trashed = [...trash].sort(
+    (a, b) => (b.deletedAt?.getTime() ?? 0) - (a.deletedAt?.getTime() ?? 0)
+  );
+  const archived = filterTasks(archive, { search }).sort(
+    (a, b) => (b.archivedAt?.getTime() ?? 0) - (a.archivedAt?.getTime() ?? 0)
+  );
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+          />
+
+          {/* Modal */}
+          <motion.div
+            className="fixed inset-0 z-50 flex items-center justify-center p-4 pointer-events-none"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+          >
+            <motion.div
+              className="bg-gradient-to-br from-gray-900/95 to-blue-900/95 backdrop-blur-xl rounded-3xl border border-white/20 shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto pointer-events-auto"
+              initial={{ scale: 0.8, y: 50 }}
+              animate={{ scale: 1, y: 0 }}
+              exit={{ scale: 0.8, y: 50 }}
+              transition={{ type: "spring", stiffness: 300, damping: 25 }}
+            >
+              <div className="p-8 space-y-6">
+                <div className="flex gap-2">
+                  {(["trash", "archive"] as const).map((option) => (
+                    <button
+                      key={option}
+                      onClick={() => setTab(option)}
+                      className={`px-4 py-2 rounded-xl text-lg font-bold transition-all duration-300 ${
+                        tab === option
+                          ? "bg-white/15 text-white"
+                          : "text-blue-200 hover:text-white"
+                      }`}
+                    >
+                      {option === "trash"
+                        ? `Trash (${trash.length})`
+                        : `Archive (${archive.length})`}
+                    </button>
+                  ))}
+                </div>
+
+                {tab === "trash" ? (
+                  <>
+                    <div className="flex items-center justify-between gap-3">
+                      <label
+                        htmlFor="retention"
+                        className="text-sm text-blue-200"
+                      >
+                        Delete for good after
+                      </label>
+                      <select
+                        id="retention"
+                        value={settings.retentionDays}
+                        onChange={(e) =>
+                          onSettingsChange({
+                            ...settings,
+                            retentionDays: parseInt(e.target.value),
+                          })
+                        }
+                        className="px-3 py-2 bg-white/10 border border-white/20 rounded-xl text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        {retentionOptions.map((days) => (
+                          <option
+                            key={days}
+                            value={days}
+                            className="bg-gray-800"
+                          >
+                            {days ? `${days} days` : "Never"}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+
+                    {trashed.length === 0 ? (
+                      <p className="text-sm text-blue-200">
+                        The trash is empty.
+                      </p>
+                    ) : (
+                      <ul className="space-y-2">
+                        {trashed.map((task) => {
+                          const purgeAt = purgeDate(task, settings);
+                          return (
+                            <li
+                              key={task.id}
+                              className="flex items-center gap-3 px-4 py-3 bg-white/5 border border-white/10 rounded-xl"
+                            >
+                              <div className="flex-1 min-w-0">
+                                <p className="text-white font-semibold truncate">
+                                  {task.title}
+                                </p>
+                                <p className="text-xs text-blue-200">
+                                  {task.deletedAt &&
+                                    `Deleted ${formatDate(task.deletedAt)}`}
+                                  {purgeAt &&
+                                    ` · gone for good ${formatDate(purgeAt)}`}
+                                </p>
+                              </div>
+                              <button
+                                onClick={() => onRestore(task.id)}
+                                className="px-3 py-1 text-sm font-semibold rounded-lg bg-white/10 text-blue-100 hover:bg-white/20 transition-all duration-300"
+                              >
+                                Restore
+                              </button>
+                              <button
+                                onClick={() => onPurge([task.id])}
+                                className="p-1 text-red-300 hover:text-red-200 transition-colors duration-300"
+                                title="Delete for good"
+                              >
+                                ✕
+                              </button>
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    )}
+
+                    {trashed.length > 0 && (
+                      <button
+                        onClick={() => onPurge(trashed.map((task) => task.id))}
+                        className="w-full py-3 text-sm font-semibold rounded-xl bg-red-500/20 text-red-200 border border-red-400/30 hover:bg-red-500/30 transition-all duration-300"
+                      >
+                        Empty trash
+                      </button>
+                    )}
+                  </>
+                ) : (
+                  <>
+                    <input
+                      type="text"
+                      value={search}
+                      onChange={(e) => setSearch(e.target.value)}
+                      placeholder="Search the archive..."
+                      className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white placeholder-blue-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-300"
+                    />
+
+                    {archived.length === 0 ? (
+                      <p className="text-sm text-blue-200">
+                        {archive.length === 0
+                          ? "Nothing archived yet. Archive a completed task from its card."
+                          : "No archived task matches your search."}
+                      </p>
+                    ) : (
+                      <ul className="space-y-2">
+                        {archived.map((task) => (
+                          <li
+                            key={task.id}
+                            className="flex items-center gap-3 px-4 py-3 bg-white/5 border border-white/10 rounded-xl"
+                          >
+                            <div className="flex-1 min-w-0">
+                              <p className="text-white font-semibold truncate">
+                                {task.title}
+                              </p>
+                              <p className="text-xs text-blue-200">
+                                {task.completedAt &&
+                                  `Completed ${formatDate(task.completedAt)}`}
+                                {!!task.tags?.length &&
+                                  ` · ${task.tags
+                                    .map((tag) => `#${tag}`)
+                                    .join(" ")}`}
+                              </p>
+                            </div>
+                            <button
+                              onClick={() => onUnarchive(task.id)}
+                              className="px-3 py-1 text-sm font-semibold rounded-lg bg-white/10 text-blue-100 hover:bg-white/20 transition-all duration-300"
+                            >
+                              Unarchive
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </>
+                )}
+
+                <motion.button
+                  type="button"
+                  onClick={onClose}
+                  className="w-full bg-gray-600/30 text-gray-300 py-3 px-6 rounded-xl font-semibold border border-gray-500/30 hover:bg-gray-600/40 hover:text-white transition-all duration-300"
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                >
+                  Done
+                </motion.button>
+              </div>
+            </motion.div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,183 @@
+"use client";
+
+import {
+  formatMemoLength,
+  MAX_MEMO_MS,
+  VoiceMemoRecorder,
+  VoiceMemoRecording,
+} from "@/lib/voice-memos";
+import { VoiceMemoInfo } from "@/types/task";
+import { useEffect, useRef, useState } from "react";
+
+interface VoiceMemoFieldProps {
+  // The memo the task will have: its saved one or a new recording
+  memo?: VoiceMemoInfo;
+  // Only a new recording can be previewed here
+  recording?: VoiceMemoRecording;
+  onRecorded: (recording: VoiceMemoRecording) => void;
+  onRemove: () => void;
+  // So wake word listening can step aside while the microphone is busy
+  onRecordingChange?: (recording: boolean) => void;
+  // Offered when the transcript isn't in the description yet
+  onUseTranscript?: (transcript: string) => void;
+}
+
+export default function VoiceMemoField({
+  memo,
+  recording,
+  onRecorded,
+  onRemove,
+  onRecordingChange,
+  onUseTranscript,
+}: VoiceMemoFieldProps) {
+  const recorderRef = useRef<VoiceMemoRecorder | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const [error, setError] = useState("");
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  // Read by the unmount cleanup, which only sees the first render
+  const onRecordingChangeRef = useRef(onRecordingChange);
+  onRecordingChangeRef.current = onRecordingChange;
+
+  // A form closed mid-memo drops it and gives the microphone back
+  useEffect(() => {
+    return () => {
+      if (recorderRef.current?.isRecording()) {
+        recorderRef.current.cancel();
+        onRecordingChangeRef.current?.(false);
+      }
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isRecording) return;
+    const startedAt = Date.now();
+    const interval = setInterval(
+      () => setElapsed(Date.now() - startedAt),
+      250
+    );
+    return () => clearInterval(interval);
+  }, [isRecording]);
+
+  useEffect(() => {
+    if (!recording) {
+      setPreviewUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(recording.audio);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [recording]);
+
+  const stopRecording = async () => {
+    const recorder = recorderRef.current;
+    if (!recorder?.isRecording()) return;
+    setIsRecording(false);
+    try {
+      onRecorded(await recorder.stop());
+    } catch (error) {
+      console.error("Error recording voice memo:", error);
+      setError("The memo could not be saved.");
+    } finally {
+      onRecordingChange?.(false);
+    }
+  };
+
+  const startRecording = async () => {
+    setError("");
+    setElapsed(0);
+    const recorder = new VoiceMemoRecorder();
+    recorderRef.current = recorder;
+    onRecordingChange?.(true);
+    try {
+      // Hitting the length limit stops the memo as if Stop was pressed
+      await recorder.start(() => stopRecording());
+      setIsRecording(true);
+    } catch (error) {
+      console.error("Error starting voice memo:", error);
+      setError("Couldn't use the microphone. Check its permission.");
+      onRecordingChange?.(false);
+    }
+  };
+
+  if (!VoiceMemoRecorder.isSupported()) {
+    return (
+      <p className="text-sm text-blue-200">
+        This browser can&apos;t record voice memos.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {isRecording ? (
+        <div className="flex items-center gap-3">
+          <span className="w-3 h-3 rounded-full bg-red-500 animate-pulse" />
+          <span className="text-sm text-white font-semibold">
+            Recording {formatMemoLength(elapsed)}
+          </span>
+          <span className="text-xs text-blue-200">
+            / {formatMemoLength(MAX_MEMO_MS)}
+          </span>
+          <button
+            type="button"
+            onClick={stopRecording}
+            className="ml-auto px-4 py-2 bg-red-500/20 border border-red-400/40 rounded-xl text-red-200 text-sm font-semibold hover:bg-red-500/30 transition-all duration-300"
+          >
+            ■ Stop
+          </button>
+        </div>
+      ) : memo ? (
+        <div className="flex flex-wrap items-center gap-3">
+          {previewUrl ? (
+            <audio controls src={previewUrl} className="h-10 flex-1 min-w-0" />
+          ) : (
+            <span className="flex-1 text-sm text-blue-100">
+              🎙 Memo, {formatMemoLength(memo.durationMs)}
+            </span>
+          )}
+          <button
+            type="button"
+            onClick={startRecording}
+            className="px-3 py-2 bg-white/10 border border-white/20 rounded-xl text-white text-sm font-semibold hover:bg-white/20 transition-all duration-300"
+          >
+            Re-record
+          </button>
+          <button
+            type="button"
+            onClick={onRemove}
+            className="px-3 py-2 text-red-300 hover:text-red-200 text-sm transition-colors duration-300"
+            title="Remove memo"
+          >
+            ✕
+          </button>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={startRecording}
+          className="w-full px-4 py-3 bg-white/10 border border-dashed border-white/20 rounded-xl text-blue-100 font-semibold hover:bg-white/20 transition-all duration-300"
+        >
+          🎙 Record a memo
+        </button>
+      )}
+
+      {!isRecording && recording?.transcript && (
+        <div className="text-sm text-blue-200">
+          <p className="italic">&ldquo;{recording.transcript}&rdquo;</p>
+          {onUseTranscript && (
+            <button
+              type="button"
+              onClick={() => onUseTranscript(recording.transcript ?? "")}
+              className="mt-1 text-blue-300 hover:text-blue-200 font-medium transition-colors duration-300"
+            >
+              Add to description
+            </button>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-300">{error}</p>}
+    </div>
+  );
+}
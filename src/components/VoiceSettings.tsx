@@ -0,0 +1,211 @@
+"use client";
+
+import { VoiceConfig } from "@/lib/voice";
+import { WakeWordScore } from "@/lib/wake-word";
+import { AnimatePresence, motion } from "framer-motion";
+import { useEffect, useState } from "react";
+
+interface VoiceSettingsProps {
+  config: VoiceConfig;
+  recentScores: WakeWordScore[];
+  onSave: (config: VoiceConfig) => void;
+  onCancel: () => void;
+  isOpen: boolean;
+}
+
+export default function VoiceSettings({
+  config,
+  recentScores,
+  onSave,
+  onCancel,
+  isOpen,
+}: VoiceSettingsProps) {
+  const [wakeWords, setWakeWords] = useState("");
+  const [threshold, setThreshold] = useState(config.wakeWordThreshold);
+  const [language, setLanguage] = useState(config.language);
+
+  useEffect(() => {
+    setWakeWords(config.wakeWords.join("\n"));
+    setThreshold(config.wakeWordThreshold);
+    setLanguage(config.language);
+  }, [config, isOpen]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const phrases = wakeWords
+      .split("\n")
+      .map((phrase) => phrase.trim().toLowerCase())
+      .filter(Boolean);
+    if (phrases.length === 0) return;
+
+    onSave({
+      ...config,
+      wakeWords: phrases,
+      wakeWordThreshold: threshold,
+      language: language.trim() || config.language,
+    });
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onCancel}
+          />
+
+          {/* Modal */}
+          <motion.div
+            className="fixed inset-0 z-50 flex items-center justify-center p-4 pointer-events-none"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+          >
+            <motion.div
+              className="bg-gradient-to-br from-gray-900/95 to-blue-900/95 backdrop-blur-xl rounded-3xl border border-white/20 shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto pointer-events-auto"
+              initial={{ scale: 0.8, y: 50 }}
+              animate={{ scale: 1, y: 0 }}
+              exit={{ scale: 0.8, y: 50 }}
+              transition={{ type: "spring", stiffness: 300, damping: 25 }}
+            >
+              <form onSubmit={handleSubmit} className="p-8 space-y-6">
+                <div>
+                  <h2 className="text-2xl font-bold text-white">
+                    Voice Settings
+                  </h2>
+                  <p className="text-blue-200 mt-1">
+                    Choose how the assistant wakes up
+                  </p>
+                </div>
+
+                {/* Wake Phrases */}
+                <div>
+                  <label
+                    htmlFor="wakeWords"
+                    className="block text-sm font-semibold text-white mb-2"
+                  >
+                    Wake phrases (one per line)
+                  </label>
+                  <textarea
+                    id="wakeWords"
+                    value={wakeWords}
+                    onChange={(e) => setWakeWords(e.target.value)}
+                    rows={3}
+                    className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white placeholder-blue-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-300 backdrop-blur-sm resize-none"
+                    placeholder="hi voice"
+                  />
+                </div>
+
+                {/* Sensitivity */}
+                <div>
+                  <label
+                    htmlFor="threshold"
+                    className="flex justify-between text-sm font-semibold text-white mb-2"
+                  >
+                    <span>Match threshold</span>
+                    <span className="text-blue-200">
+                      {Math.round(threshold * 100)}%
+                    </span>
+                  </label>
+                  <input
+                    type="range"
+                    id="threshold"
+                    min={0.5}
+                    max={1}
+                    step={0.01}
+                    value={threshold}
+                    onChange={(e) => setThreshold(Number(e.target.value))}
+                    className="w-full accent-blue-500"
+                  />
+                  <p className="text-xs text-blue-200 mt-1">
+                    Lower it if the wake phrase is often missed, raise it if
+                    the assistant wakes up on its own in a noisy room.
+                  </p>
+                </div>
+
+                {/* Language */}
+                <div>
+                  <label
+                    htmlFor="language"
+                    className="block text-sm font-semibold text-white mb-2"
+                  >
+                    Recognition language
+                  </label>
+                  <input
+                    type="text"
+                    id="language"
+                    value={language}
+                    onChange={(e) => setLanguage(e.target.value)}
+                    className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white placeholder-blue-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-300 backdrop-blur-sm"
+                    placeholder="en-US"
+                  />
+                </div>
+
+                {/* Recent Detection Scores */}
+                <div>
+                  <h3 className="text-sm font-semibold text-white mb-2">
+                    Recent detection scores
+                  </h3>
+                  {recentScores.length === 0 ? (
+                    <p className="text-sm text-blue-200">
+                      Say something while the assistant is waiting for its
+                      wake phrase to see how closely it matched.
+                    </p>
+                  ) : (
+                    <ul className="space-y-2">
+                      {recentScores.map((score, index) => (
+                        <li
+                          key={index}
+                          className="flex items-center justify-between gap-4 text-sm"
+                        >
+                          <span className="text-blue-100 truncate">
+                            &ldquo;{score.heard || "…"}&rdquo;
+                          </span>
+                          <span
+                            className={`px-2 py-1 rounded-full text-xs font-semibold border ${
+                              score.score >= threshold
+                                ? "bg-green-500/20 text-green-300 border-green-400/40"
+                                : "bg-gray-500/20 text-gray-300 border-gray-400/40"
+                            }`}
+                          >
+                            {Math.round(score.score * 100)}%
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+
+                {/* Action Buttons */}
+                <div className="flex flex-col sm:flex-row gap-4 pt-2">
+                  <motion.button
+                    type="submit"
+                    className="flex-1 bg-gradient-to-r from-blue-600 to-purple-600 text-white py-3 px-6 rounded-xl font-semibold shadow-2xl"
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                  >
+                    Save Settings
+                  </motion.button>
+                  <motion.button
+                    type="button"
+                    onClick={onCancel}
+                    className="flex-1 bg-gray-600/30 text-gray-300 py-3 px-6 rounded-xl font-semibold border border-gray-500/30 hover:bg-gray-600/40 hover:text-white transition-all duration-300"
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                  >
+                    Cancel
+                  </motion.button>
+                </div>
+              </form>
+            </motion.div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -1,39 +1,66 @@
 "use client";
 
-import { parseReminderFromSpeech } from "@/lib/reminders";
-import { VoiceManager, parseDateFromSpeech, taskQuestions } from "@/lib/voice";
+import { parseConfirmation, parsePriority } from "@/lib/intents";
+import { ReminderRequest } from "@/lib/reminders";
+import { mergeTags, parseTagList } from "@/lib/tags";
+import { TemporalExpression, parseTemporal } from "@/lib/temporal";
+import {
+  TaskQuestion,
+  VoiceManager,
+  formatSpokenDate,
+  joinSpoken,
+  parseDueFromSpeech,
+  taskQuestions,
+} from "@/lib/voice";
 import { TaskFormData } from "@/types/task";
 import { AnimatePresence, motion } from "framer-motion";
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 
 interface VoiceTaskCreatorProps {
   isActive: boolean;
-  onTaskCreated: (taskData: TaskFormData) => void;
+  // Details already spoken in the command; only missing required
+  // fields are asked for when this is set
+  initialData?: Partial<TaskFormData>;
+  // Reminders are scheduled by the parent once the task has an id
+  onTaskCreated: (
+    taskData: TaskFormData,
+    reminders?: ReminderRequest[]
+  ) => void;
   onCancel: () => void;
   voiceManager: VoiceManager;
 }
 
+const emptyTaskData: TaskFormData = {
+  title: "",
+  description: "",
+  priority: "medium",
+  dueDate: "",
+};
+
 export default function VoiceTaskCreator({
   isActive,
+  initialData,
   onTaskCreated,
   onCancel,
   voiceManager,
 }: VoiceTaskCreatorProps) {
+  const [questions, setQuestions] = useState<TaskQuestion[]>(taskQuestions);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  const [taskData, setTaskData] = useState<TaskFormData>({
-    title: "",
-    description: "",
-    priority: "medium",
-    category: "",
-    dueDate: "",
-  });
+  const [taskData, setTaskData] = useState<TaskFormData>(emptyTaskData);
+  // Mirrors taskData for callbacks that fire after speech finishes
+  const taskDataRef = useRef<TaskFormData>(emptyTaskData);
+  const speechHandlerRef = useRef<(transcript: string) => void>(() => {});
   const [isListening, setIsListening] = useState(false);
   const [currentTranscript, setCurrentTranscript] = useState("");
   const [isProcessing, setIsProcessing] = useState(false);
   const [needsReminder, setNeedsReminder] = useState(false);
-  const [reminderTime, setReminderTime] = useState<Date | null>(null);
+  const [reminderTime, setReminderTime] = useState<TemporalExpression | null>(
+    null
+  );
+  // Read when finishing, which happens in a speech callback
+  const reminderTimeRef = useRef<TemporalExpression | null>(null);
 
-  const currentQuestion = taskQuestions[currentQuestionIndex];
+  const currentQuestion = questions[currentQuestionIndex];
 
   useEffect(() => {
     if (!isActive) {
@@ -41,11 +68,21 @@ export default function VoiceTaskCreator({
       return;
     }
 
+    const prefilled =
+      initialData && Object.values(initialData).some((value) => value);
+    const pending = prefilled
+      ? taskQuestions.filter(
+          (question) => question.required && !initialData[question.field]
+        )
+      : taskQuestions;
+    setQuestions(pending);
+    updateTaskData({ ...emptyTaskData, ...initialData });
+
     // Start with first question
-    askCurrentQuestion();
+    askQuestion(0, pending);
 
     // Set up voice recognition
-    voiceManager.onSpeech(handleSpeechResult);
+    voiceManager.onSpeech((transcript) => speechHandlerRef.current(transcript));
     voiceManager.onListeningChange(setIsListening);
 
     return () => {
@@ -53,25 +90,30 @@ export default function VoiceTaskCreator({
     };
   }, [isActive]);
 
+  useEffect(() => {
+    speechHandlerRef.current = handleSpeechResult;
+  });
+
+  const updateTaskData = (changes: Partial<TaskFormData>) => {
+    taskDataRef.current = { ...taskDataRef.current, ...changes };
+    setTaskData(taskDataRef.current);
+  };
+
   const resetCreator = () => {
+    setQuestions(taskQuestions);
     setCurrentQuestionIndex(0);
-    setTaskData({
-      title: "",
-      description: "",
-      priority: "medium",
-      category: "",
-      dueDate: "",
-    });
+    updateTaskData(emptyTaskData);
     setCurrentTranscript("");
     setIsProcessing(false);
     setNeedsReminder(false);
     setReminderTime(null);
+    reminderTimeRef.current = null;
   };
 
-  const askCurrentQuestion = () => {
-    if (currentQuestionIndex >= taskQuestions.length) {
-      // Ask about reminder
-      if (!needsReminder) {
+  const askQuestion = (index: number, pending = questions) => {
+    if (index >= pending.length) {
+      // Ask about reminder, unless everything was said in one go
+      if (!needsReminder && pending.length === taskQuestions.length) {
         voiceManager.speak(
           "Great! Your task is ready. Would you like to set a reminder? Say 'yes' to add a reminder or 'no' to finish.",
           () => {
@@ -87,7 +129,7 @@ export default function VoiceTaskCreator({
       return;
     }
 
-    const question = taskQuestions[currentQuestionIndex];
+    const question = pending[index];
     voiceManager.speak(question.question, () => {
       voiceManager.startActiveListening();
     });
@@ -108,14 +150,15 @@ export default function VoiceTaskCreator({
 
     // Handle reminder question
     if (needsReminder && !reminderTime) {
-      if (lowerAnswer.includes("no") || lowerAnswer.includes("skip")) {
+      const confirmation = parseConfirmation(lowerAnswer);
+      if (confirmation === "no" || lowerAnswer.includes("skip")) {
         finishTaskCreation();
         return;
       }
 
-      if (lowerAnswer.includes("yes")) {
+      if (confirmation === "yes") {
         voiceManager.speak(
-          "When would you like to be reminded? You can say things like 'in 30 minutes', 'tomorrow at 9', or 'next week'.",
+          "When would you like to be reminded? You can say things like 'in 30 minutes', 'tomorrow at 9pm', or 'an hour before it's due'.",
           () => {
             voiceManager.startActiveListening();
           }
@@ -124,16 +167,13 @@ export default function VoiceTaskCreator({
       }
 
       // Try to parse reminder time
-      const parsedTime = parseReminderFromSpeech(lowerAnswer);
+      const parsedTime = parseTemporal(lowerAnswer);
       if (parsedTime) {
         setReminderTime(parsedTime);
-        const timeStr = parsedTime.toLocaleString();
-        voiceManager.speak(
-          `Reminder set for ${timeStr}. Creating your task now!`,
-          () => {
-            finishTaskCreation();
-          }
-        );
+        reminderTimeRef.current = parsedTime;
+        voiceManager.speak("Got it. Creating your task now!", () => {
+          finishTaskCreation();
+        });
         return;
       } else {
         voiceManager.speak(
@@ -146,7 +186,7 @@ export default function VoiceTaskCreator({
       }
     }
 
-    if (currentQuestionIndex >= taskQuestions.length) return;
+    if (currentQuestionIndex >= questions.length) return;
 
     const question = currentQuestion;
     let processedAnswer = lowerAnswer;
@@ -157,7 +197,7 @@ export default function VoiceTaskCreator({
       lowerAnswer.includes("no") ||
       lowerAnswer === ""
     ) {
-      if (question.field === "title") {
+      if (question.required) {
         voiceManager.speak(
           "Task title is required. Please tell me what you'd like to call this task.",
           () => {
@@ -176,33 +216,34 @@ export default function VoiceTaskCreator({
     // Process based on question type
     switch (question.field) {
       case "title":
-        setTaskData((prev) => ({ ...prev, title: answer.trim() }));
+        updateTaskData({ title: answer.trim() });
         break;
 
       case "description":
-        setTaskData((prev) => ({ ...prev, description: answer.trim() }));
+        updateTaskData({ description: answer.trim() });
         break;
 
       case "priority":
-        const priority =
-          ["high", "medium", "low"].find((p) => processedAnswer.includes(p)) ||
-          "medium";
-        setTaskData((prev) => ({
-          ...prev,
-          priority: priority as "low" | "medium" | "high",
-        }));
+        const priority = parsePriority(processedAnswer) ?? "medium";
+        updateTaskData({ priority });
         processedAnswer = priority;
         break;
 
-      case "category":
-        setTaskData((prev) => ({ ...prev, category: answer.trim() }));
+      case "tags": {
+        const tags = parseTagList(processedAnswer);
+        updateTaskData({ tags });
+        processedAnswer = joinSpoken(tags);
         break;
+      }
 
       case "dueDate":
-        const parsedDate = parseDateFromSpeech(processedAnswer);
-        if (parsedDate) {
-          setTaskData((prev) => ({ ...prev, dueDate: parsedDate }));
-          processedAnswer = new Date(parsedDate).toLocaleDateString();
+        const parsedDue = parseDueFromSpeech(processedAnswer);
+        if (parsedDue) {
+          updateTaskData(parsedDue);
+          processedAnswer = formatSpokenDate(
+            parsedDue.dueDate,
+            parsedDue.dueTime
+          );
         }
         break;
     }
@@ -220,23 +261,22 @@ export default function VoiceTaskCreator({
   };
 
   const nextQuestion = () => {
+    const nextIndex = currentQuestionIndex + 1;
     setIsProcessing(false);
     setCurrentTranscript("");
-    setCurrentQuestionIndex((prev) => prev + 1);
+    setCurrentQuestionIndex(nextIndex);
 
     setTimeout(() => {
-      askCurrentQuestion();
+      askQuestion(nextIndex);
     }, 500);
   };
 
   const finishTaskCreation = () => {
     voiceManager.stopActiveListening();
-    onTaskCreated(taskData);
-
-    // If reminder is set, we'll handle it in the parent component
-    if (reminderTime) {
-      // This will be handled by passing reminderTime back to parent
-    }
+    onTaskCreated(
+      taskDataRef.current,
+      reminderTimeRef.current ? [{ when: reminderTimeRef.current }] : []
+    );
   };
 
   const handleCancel = () => {
@@ -309,8 +349,8 @@ export default function VoiceTaskCreator({
             <div className="flex justify-between text-sm text-blue-200 mb-2">
               <span>Progress</span>
               <span>
-                {Math.min(currentQuestionIndex + 1, taskQuestions.length)} /{" "}
-                {taskQuestions.length}
+                {Math.min(currentQuestionIndex + 1, questions.length)} /{" "}
+                {questions.length}
               </span>
             </div>
             <div className="w-full bg-white/10 rounded-full h-2">
@@ -319,8 +359,8 @@ export default function VoiceTaskCreator({
                 initial={{ width: "0%" }}
                 animate={{
                   width: `${
-                    (Math.min(currentQuestionIndex + 1, taskQuestions.length) /
-                      taskQuestions.length) *
+                    (Math.min(currentQuestionIndex + 1, questions.length) /
+                      questions.length) *
                     100
                   }%`,
                 }}
@@ -332,7 +372,7 @@ export default function VoiceTaskCreator({
           {/* Current Question */}
           <div className="bg-white/5 rounded-2xl p-6 mb-6">
             <h3 className="text-xl font-semibold text-white mb-4">
-              {currentQuestionIndex < taskQuestions.length
+              {currentQuestionIndex < questions.length
                 ? currentQuestion?.question
                 : needsReminder && !reminderTime
                 ? "Would you like to set a reminder?"
@@ -382,16 +422,19 @@ export default function VoiceTaskCreator({
                   <span className="text-green-200">Priority:</span>{" "}
                   {taskData.priority}
                 </div>
-                {taskData.category && (
+                {(taskData.tags?.length || taskData.category) && (
                   <div className="text-white">
-                    <span className="text-green-200">Category:</span>{" "}
-                    {taskData.category}
+                    <span className="text-green-200">Tags:</span>{" "}
+                    {mergeTags(
+                      taskData.tags,
+                      taskData.category ? [taskData.category] : []
+                    ).join(", ")}
                   </div>
                 )}
                 {taskData.dueDate && (
                   <div className="text-white">
                     <span className="text-green-200">Due:</span>{" "}
-                    {new Date(taskData.dueDate).toLocaleDateString()}
+                    {formatSpokenDate(taskData.dueDate, taskData.dueTime)}
                   </div>
                 )}
               </div>
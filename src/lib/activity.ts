@@ -0,0 +1,150 @@
+// src/lib/activity.ts
+// ------------------------------------------------------
+// Task Activity
+// An append-only log per task: created, each field that
+// changed with its old and new value, completed, reopened
+// and reminders fired, each noting whether it came from
+// voice, the form, an import or the app itself. Values are
+// kept as they read at the time, so the log stays
+// readable after the task moves on.
+// ------------------------------------------------------
+
+import { formatDue } from "@/lib/deadlines";
+import { describeRecurrence } from "@/lib/recurrence";
+import { generateTaskId, subtaskProgress } from "@/lib/utils";
+import { formatMemoLength } from "@/lib/voice-memos";
+import { DEFAULT_COLUMNS, taskStatus } from "@/lib/workflow";
+import { ActivityEntry, ActivitySource, Task, TaskStatus } from "@/types/task";
+
+export const activitySourceLabels: Record<ActivitySource, string> = {
+  voice: "by voice",
+  form: "in the app",
+  import: "by import",
+  system: "automatically",
+};
+
+export function logActivity(
+  task: Task,
+  kind: ActivityEntry["kind"],
+  source: ActivitySource,
+  details: Pick<ActivityEntry, "field" | "from" | "to"> = {},
+  at: Date = new Date()
+): Task {
+  return {
+    ...task,
+    activity: [
+      ...(task.activity ?? []),
+      { id: generateTaskId(), at, kind, source, ...details },
+    ],
+  };
+}
+
+function formatStatus(status: TaskStatus): string {
+  return (
+    DEFAULT_COLUMNS.find((column) => column.id === status)?.title ??
+    status.replace(/-/g, " ").replace(/\b\w/g, (c) => c.toUpperCase())
+  );
+}
+
+// The fields worth auditing, each read as it would be shown. Timers
+// and ids are left out: they change too often, or mean nothing read
+// back.
+const trackedFields: Record<string, (task: Task) => string> = {
+  title: (task) => task.title,
+  description: (task) => task.description?.trim() ?? "",
+  priority: (task) => task.priority,
+  tags: (task) => (task.tags ?? []).join(", "),
+  "due date": (task) => formatDue(task),
+  repeat: (task) =>
+    task.recurrence ? describeRecurrence(task.recurrence) : "",
+  estimate: (task) =>
+    task.estimatedMinutes ? `${task.estimatedMinutes} min` : "",
+  steps: (task) => {
+    const { done, total } = subtaskProgress(task);
+    return total > 0 ? `${done} of ${total} done` : "";
+  },
+  "voice memo": (task) =>
+    task.voiceMemo ? formatMemoLength(task.voiceMemo.durationMs) : "",
+  // Moving in or out of "done" is logged as completed or reopened
+  status: (task) => (task.completed ? "" : formatStatus(taskStatus(task))),
+};
+
+// The changed task, with an entry for each way it differs from before;
+// a task that didn't change comes back as it is
+export function logChanges(
+  before: Task,
+  after: Task,
+  source: ActivitySource,
+  at: Date = new Date()
+): Task {
+  let logged = after;
+  if (after.completed !== before.completed) {
+    logged = logActivity(
+      logged,
+      after.completed ? "completed" : "reopened",
+      source,
+      {},
+      at
+    );
+  }
+
+  Object.entries(trackedFields).forEach(([field, read]) => {
+    const from = read(before);
+    const to = read(after);
+    if (from === to) return;
+    // Completing or reopening already says the status changed
+    if (field === "status" && (!from || !to)) return;
+    logged = logActivity(logged, "changed", source, { field, from, to }, at);
+  });
+  return logged;
+}
+
+// logChanges for every task a bulk change touched
+export function logChangesAcross(
+  before: Task[],
+  after: Task[],
+  source: ActivitySource
+): Task[] {
+  const previous = new Map(before.map((task) => [task.id, task]));
+  const now = new Date();
+  return after.map((task) => {
+    const old = previous.get(task.id);
+    return old && old !== task ? logChanges(old, task, source, now) : task;
+  });
+}
+
+// Long descriptions are cut short for display
+function clip(value = ""): string {
+  return value.length > 60 ? `${value.slice(0, 57)}...` : value;
+}
+
+// "Due date changed from Oct 19, 2026 to Oct 22, 2026"
+export function describeActivity(entry: ActivityEntry): string {
+  switch (entry.kind) {
+    case "created":
+      return "Created";
+    case "completed":
+      return "Completed";
+    case "reopened":
+      return "Reopened";
+    case "reminder":
+      return "Reminder went off";
+    case "deleted":
+      return "Moved to the trash";
+    case "restored":
+      return "Restored from the trash";
+    case "archived":
+      return "Archived";
+    case "unarchived":
+      return "Taken out of the archive";
+    case "changed": {
+      const field = entry.field ?? "Details";
+      const label = field.charAt(0).toUpperCase() + field.slice(1);
+      const from = clip(entry.from);
+      const to = clip(entry.to);
+      if (!from) return `${label} set to ${to}`;
+      if (!to) return `${label} cleared (was ${from})`;
+      return `${label} changed from ${from} to ${to}`;
+    }
+  }
+}
@@ -0,0 +1,106 @@
+// src/lib/deadlines.ts
+// ------------------------------------------------------
+// Deadlines
+// A due date is a day on the local calendar, kept as local
+// midnight. Without a due time it is an all-day deadline
+// that lasts until the day is over; with one ("15:30") it
+// ends at that time of day.
+// ------------------------------------------------------
+
+import { fromLocalDateString, toLocalTimeString } from "@/lib/temporal";
+import { Task } from "@/types/task";
+
+type Deadline = Pick<Task, "dueDate" | "dueTime">;
+
+// "15:30" -> 15 and 30; null for anything a time input wouldn't give
+function parseDueTime(
+  time?: string
+): { hours: number; minutes: number } | null {
+  const match = time?.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours < 24 && minutes < 60 ? { hours, minutes } : null;
+}
+
+// The day and time as picked in the form or heard; an empty time
+// makes the deadline all day
+export function dueFromLocal(date: string, time?: string): Deadline {
+  return {
+    dueDate: fromLocalDateString(date),
+    dueTime: parseDueTime(time) ? time : undefined,
+  };
+}
+
+// The moment the deadline passes: the end of the day when it is all day
+export function deadlineOf(task: Deadline): Date | null {
+  if (!task.dueDate) return null;
+  const day = new Date(task.dueDate);
+  const time = parseDueTime(task.dueTime);
+  return time
+    ? new Date(
+        day.getFullYear(),
+        day.getMonth(),
+        day.getDate(),
+        time.hours,
+        time.minutes
+      )
+    : new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1);
+}
+
+// Open and past its deadline; a task due today is only overdue once
+// today is over, or once its due time has gone by
+export function isOverdue(task: Task, now: Date = new Date()): boolean {
+  const deadline = deadlineOf(task);
+  return !task.completed && !!deadline && deadline <= now;
+}
+
+// "15:30" -> "3:30 PM"
+export function formatDueTime(time: string): string {
+  const parsed = parseDueTime(time);
+  if (!parsed) return time;
+  return new Date(2000, 0, 1, parsed.hours, parsed.minutes).toLocaleTimeString(
+    "en-US",
+    { hour: "numeric", minute: "2-digit" }
+  );
+}
+
+// "Oct 24, 2026", or "Oct 24, 2026 at 3:30 PM" for a timed deadline
+export function formatDue(task: Deadline): string {
+  if (!task.dueDate) return "";
+  const date = new Date(task.dueDate).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+  return task.dueTime ? `${date} at ${formatDueTime(task.dueTime)}` : date;
+}
+
+// Due dates saved before due times existed came in two shapes: a
+// date-only string that JSON read as UTC midnight, which lands on the
+// day before for anyone west of UTC, and a moment with no due time.
+// Both become a local day, with the time of day kept for the second.
+export function normalizeDeadline(task: Deadline): Deadline {
+  if (!task.dueDate || task.dueTime) return task;
+  const due = new Date(task.dueDate);
+  if (due.getHours() === 0 && due.getMinutes() === 0) {
+    return { dueDate: due };
+  }
+  if (
+    due.getUTCHours() === 0 &&
+    due.getUTCMinutes() === 0 &&
+    due.getUTCSeconds() === 0
+  ) {
+    return {
+      dueDate: new Date(
+        due.getUTCFullYear(),
+        due.getUTCMonth(),
+        due.getUTCDate()
+      ),
+    };
+  }
+  return {
+    dueDate: new Date(due.getFullYear(), due.getMonth(), due.getDate()),
+    dueTime: toLocalTimeString(due),
+  };
+}
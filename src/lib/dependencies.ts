@@ -0,0 +1,145 @@
+// src/lib/dependencies.ts
+// ------------------------------------------------------
+// Task Dependencies
+// "Blocked by" links between tasks. A task with an open
+// blocker can't start; completing the last blocker
+// moves it from "blocked" back to "to do". Links that
+// would form a cycle are refused.
+// ------------------------------------------------------
+
+import { setTaskStatus } from "@/lib/workflow";
+import { Task } from "@/types/task";
+
+// Blockers not yet completed; links to deleted tasks don't count
+export function openBlockers(task: Task, tasks: Task[]): Task[] {
+  const ids = new Set(task.blockedBy ?? []);
+  return tasks.filter((t) => ids.has(t.id) && !t.completed);
+}
+
+export function isBlocked(task: Task, tasks: Task[]): boolean {
+  return openBlockers(task, tasks).length > 0;
+}
+
+// Open tasks with nothing left in their way
+export function readyTasks(tasks: Task[]): Task[] {
+  return tasks.filter(
+    (task) =>
+      !task.completed && task.status !== "blocked" && !isBlocked(task, tasks)
+  );
+}
+
+// The chain of existing links that "task is blocked by blocker" would
+// close into a loop: [blocker, ..., task], where each task is blocked
+// by the next. Null when the link is safe.
+export function findDependencyCycle(
+  tasks: Task[],
+  taskId: string,
+  blockerId: string
+): Task[] | null {
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+  const blocker = byId.get(blockerId);
+  if (!blocker) return null;
+  if (blockerId === taskId) return [blocker];
+
+  // Depth-first through what the blocker is itself waiting on
+  const visited = new Set<string>();
+  const search = (current: Task): Task[] | null => {
+    if (current.id === taskId) return [current];
+    if (visited.has(current.id)) return null;
+    visited.add(current.id);
+    for (const id of current.blockedBy ?? []) {
+      const next = byId.get(id);
+      const path = next && search(next);
+      if (path) return [current, ...path];
+    }
+    return null;
+  };
+  return search(blocker);
+}
+
+// Links the task to a blocker, moving it to "blocked" while the
+// blocker is open. Check findDependencyCycle first.
+export function addBlocker(task: Task, blocker: Task): Task {
+  if (task.blockedBy?.includes(blocker.id)) return task;
+  const linked = {
+    ...task,
+    blockedBy: [...(task.blockedBy ?? []), blocker.id],
+    updatedAt: new Date(),
+  };
+  return blocker.completed || task.completed
+    ? linked
+    : setTaskStatus(linked, "blocked");
+}
+
+// Drops the link; a task left with no open blockers is unblocked
+export function removeBlocker(
+  task: Task,
+  blockerId: string,
+  tasks: Task[]
+): Task {
+  const blockedBy = (task.blockedBy ?? []).filter((id) => id !== blockerId);
+  const unlinked = {
+    ...task,
+    blockedBy: blockedBy.length > 0 ? blockedBy : undefined,
+    updatedAt: new Date(),
+  };
+  return unlinked.status === "blocked" && !isBlocked(unlinked, tasks)
+    ? setTaskStatus(unlinked, "todo")
+    : unlinked;
+}
+
+// Blocked tasks that completing (or deleting) the given task frees:
+// it was the last of their open blockers
+export function dependentsFreedBy(tasks: Task[], blockerId: string): Task[] {
+  const rest = tasks.filter((task) => task.id !== blockerId);
+  return rest.filter(
+    (task) =>
+      !task.completed &&
+      task.status === "blocked" &&
+      task.blockedBy?.includes(blockerId) &&
+      !isBlocked(task, rest)
+  );
+}
+
+// Moves every task the blocker was last holding up back to "to do"
+export function unlockDependents(tasks: Task[], blockerId: string): Task[] {
+  const freed = new Set(
+    dependentsFreedBy(tasks, blockerId).map((task) => task.id)
+  );
+  return tasks.map((task) =>
+    freed.has(task.id) ? setTaskStatus(task, "todo") : task
+  );
+}
+
+// For a deleted task: its links are dropped and its dependents freed
+export function removeFromDependencies(
+  tasks: Task[],
+  deletedId: string
+): Task[] {
+  return unlockDependents(tasks, deletedId)
+    .filter((task) => task.id !== deletedId)
+    .map((task) => {
+      if (!task.blockedBy?.includes(deletedId)) return task;
+      const blockedBy = task.blockedBy.filter((id) => id !== deletedId);
+      return { ...task, blockedBy: blockedBy.length ? blockedBy : undefined };
+    });
+}
+
+// After a task's links change in the form: "blocked" while it has an
+// open blocker, back to "to do" once the links it had are gone or done
+export function syncBlockedStatus(
+  task: Task,
+  tasks: Task[],
+  before?: Task
+): Task {
+  if (task.completed) return task;
+  const blocked = isBlocked(task, tasks);
+  const wasLinked = !!(before?.blockedBy?.length || task.blockedBy?.length);
+  if (blocked && task.status !== "blocked") {
+    return setTaskStatus(task, "blocked");
+  }
+  if (!blocked && wasLinked && task.status === "blocked") {
+    return setTaskStatus(task, "todo");
+  }
+  return task;
+}
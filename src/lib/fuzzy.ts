@@ -0,0 +1,181 @@
+// src/lib/fuzzy.ts
+// ------------------------------------------------------
+// Fuzzy Text Matching Utilities
+// Speech engines mishear words, so voice features compare
+// what was heard by spelling and by sound, never exactly.
+// ------------------------------------------------------
+
+// Lowercase, drop punctuation and collapse whitespace
+export function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9'\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Classic edit distance (insertions, deletions, substitutions)
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+// Edit distance scaled to 0..1, where 1 means identical
+export function similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+  return 1 - levenshtein(a, b) / longest;
+}
+
+const phoneticClasses: Record<string, string> = {
+  b: "b",
+  f: "b",
+  p: "b",
+  v: "b",
+  c: "k",
+  g: "k",
+  j: "k",
+  k: "k",
+  q: "k",
+  s: "s",
+  z: "s",
+  d: "t",
+  t: "t",
+  l: "l",
+  m: "m",
+  n: "m",
+  r: "r",
+};
+
+// Spelling rules that change how a word is pronounced
+function respell(word: string): string {
+  return word
+    .toLowerCase()
+    .replace(/[^a-z]/g, "")
+    .replace(/^(kn|gn|pn|wr)/, (m) => m[1])
+    .replace(/gh/g, "")
+    .replace(/ph/g, "f")
+    .replace(/ck/g, "k")
+    .replace(/c(?=[eiy])/g, "s")
+    .replace(/x/g, "ks")
+    .replace(/qu/g, "kw");
+}
+
+// Rough sound-alike key for a single word: spelling rules that change
+// pronunciation are applied first, then consonants are grouped into
+// classes and vowels dropped, so "voice" and "boys" both become "bs".
+export function phoneticKey(word: string): string {
+  const w = respell(word);
+
+  if (!w) return "";
+
+  let key = "";
+  for (let i = 0; i < w.length; i++) {
+    const code =
+      phoneticClasses[w[i]] ??
+      // Keep a leading vowel or h/w so "hi" and "eye" still carry a sound
+      (i === 0 ? (/[aeiouy]/.test(w[i]) ? "a" : w[i]) : "");
+    if (code && key[key.length - 1] !== code) key += code;
+  }
+
+  return key;
+}
+
+export function phoneticPhrase(text: string): string {
+  return normalizeText(text).split(" ").map(phoneticKey).join(" ");
+}
+
+// Vowel spellings that make the same sound: "voice" and "boys" share
+// "oy", "hey" and "hay" share "ay"
+const vowelSounds: Record<string, string> = {
+  oi: "oy",
+  oy: "oy",
+  ai: "ay",
+  ay: "ay",
+  ei: "ay",
+  ey: "ay",
+  ee: "ee",
+  ea: "ee",
+  ie: "ee",
+  y: "i",
+  oo: "u",
+  ou: "u",
+  ow: "o",
+  oa: "o",
+  oe: "o",
+};
+
+// A word as consonant classes and vowel sounds. Unlike phoneticKey the
+// vowels stay, so "vice" no longer sounds like "voice".
+function soundSegments(word: string): string[] {
+  const w = respell(word).replace(/([aeiouy][^aeiouy]+)e$/, "$1");
+  const segments: string[] = [];
+  for (const [part] of w.matchAll(/[aeiou]+y?|y(?![aeiou])|[^aeiou]/g)) {
+    const i = segments.length;
+    const code = /^[aeiouy]/.test(part)
+      ? (vowelSounds[part] ?? part[0])
+      : (phoneticClasses[part] ?? (i === 0 ? part : ""));
+    if (code && segments[i - 1] !== code) segments.push(code);
+  }
+  return segments;
+}
+
+const isVowelSound = (segment: string) => /^[aeiouy]/.test(segment);
+// Vowels carry more of a word's sound than consonants do
+const soundWeight = (segment: string) => (isVowelSound(segment) ? 1.5 : 1);
+
+// How alike two words or phrases sound, 0..1. An edit distance over
+// sounds, where a changed vowel ("vice" for "voice") costs more than a
+// swapped consonant ("choice"), and consonants in one class ("boys")
+// cost nothing.
+export function soundSimilarity(a: string, b: string): number {
+  const from = normalizeText(a).split(" ").flatMap(soundSegments);
+  const to = normalizeText(b).split(" ").flatMap(soundSegments);
+  const total = (segments: string[]) =>
+    segments.reduce((sum, segment) => sum + soundWeight(segment), 0);
+  const longest = Math.max(total(from), total(to));
+  if (longest === 0) return 1;
+
+  let previous = [0];
+  for (const segment of to) {
+    previous.push(previous[previous.length - 1] + soundWeight(segment));
+  }
+  for (let i = 1; i <= from.length; i++) {
+    const current = [previous[0] + soundWeight(from[i - 1])];
+    for (let j = 1; j <= to.length; j++) {
+      const x = from[i - 1];
+      const y = to[j - 1];
+      const swap =
+        x === y
+          ? 0
+          : isVowelSound(x) || isVowelSound(y)
+            ? Math.max(soundWeight(x), soundWeight(y))
+            : 1;
+      current[j] = Math.min(
+        previous[j] + soundWeight(x),
+        current[j - 1] + soundWeight(y),
+        previous[j - 1] + swap
+      );
+    }
+    previous = current;
+  }
+
+  return 1 - previous[to.length] / longest;
+}
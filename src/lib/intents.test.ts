@@ -0,0 +1,176 @@
+// src/lib/intents.test.ts
+// ------------------------------------------------------
+// Spoken phrase -> intent, on a fixed clock:
+// Monday 19 October 2026, 2pm local time.
+// ------------------------------------------------------
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { parseIntent } from "@/lib/intents";
+
+const NOW = new Date(2026, 9, 19, 14, 0);
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("creating tasks", () => {
+  it.each<[string, object]>([
+    ["add task buy milk", { title: "buy milk" }],
+    ["add task buy milk please", { title: "buy milk" }],
+    ["new task please", {}],
+    ["new task, please", {}],
+    // Spoken numbers stay in the title
+    ["add task write the first draft", { title: "write the first draft" }],
+    ["add task buy a dozen eggs", { title: "buy a dozen eggs" }],
+    ["add task watch seven samurai", { title: "watch seven samurai" }],
+    ["add task review the first one", { title: "review the first one" }],
+    // A date that is the subject stays in the title
+    ["add task email bob about friday", { title: "email bob about friday" }],
+    ["add task call mom friday", { title: "call mom", dueDate: "2026-10-23" }],
+    [
+      "add task pay rent on the 21st",
+      { title: "pay rent", dueDate: "2026-10-21" },
+    ],
+    [
+      "add task pay rent by the 21st",
+      { title: "pay rent", dueDate: "2026-10-21" },
+    ],
+    // A bare early hour is the afternoon unless the morning was said
+    [
+      "add task call mom at 5",
+      { title: "call mom", dueDate: "2026-10-19", dueTime: "17:00" },
+    ],
+    [
+      "add task gym tomorrow morning at 6",
+      { title: "gym", dueDate: "2026-10-20", dueTime: "06:00" },
+    ],
+    [
+      // Already past today, so tomorrow
+      "add task call mom at 5am",
+      { title: "call mom", dueDate: "2026-10-20", dueTime: "05:00" },
+    ],
+    [
+      "add task pay bills high priority, finance",
+      { title: "pay bills", priority: "high", category: "finance" },
+    ],
+    [
+      "add task fix the sink priority one",
+      { title: "fix the sink", priority: "high" },
+    ],
+    [
+      "add task write report takes two hours",
+      { title: "write report", estimatedMinutes: 120 },
+    ],
+    [
+      "add task standup daily until friday",
+      {
+        title: "standup",
+        dueDate: "2026-10-19",
+        recurrence: {
+          frequency: "daily",
+          interval: 1,
+          until: new Date(2026, 9, 23),
+        },
+      },
+    ],
+    [
+      "add task remind me to water plants in 2 hours",
+      {
+        title: "water plants",
+        reminder: {
+          kind: "instant",
+          date: new Date(2026, 9, 19, 16, 0),
+          rest: "",
+        },
+      },
+    ],
+    [
+      "add task remind me in five minutes to call mom",
+      {
+        title: "call mom",
+        reminder: {
+          kind: "instant",
+          date: new Date(2026, 9, 19, 14, 5),
+          rest: "",
+        },
+      },
+    ],
+    ["add task remind me to water plants", { title: "water plants" }],
+  ])("%s", (phrase, slots) => {
+    const intent = parseIntent(phrase);
+    expect(intent.type).toBe("createTask");
+    if (intent.type === "createTask") expect(intent.slots).toEqual(slots);
+  });
+});
+
+describe("questions about the list", () => {
+  const activeTasks = {
+    type: "query",
+    query: { kind: "list", status: "active" },
+  };
+
+  it.each([
+    "show tasks",
+    "list tasks",
+    "what tasks do i have",
+    "read my tasks",
+    "show me my tasks",
+    "what's on my list",
+  ])("%s", (phrase) => {
+    expect(parseIntent(phrase)).toMatchObject(activeTasks);
+    expect(parseIntent(phrase)).not.toHaveProperty("query.category");
+  });
+
+  it("reads a category before tasks", () => {
+    expect(parseIntent("show work tasks")).toMatchObject({
+      type: "query",
+      query: { category: "work" },
+    });
+  });
+});
+
+describe("reminders and edits", () => {
+  it.each([
+    [
+      "remind me to call mom in 5 minutes",
+      { taskRef: "call mom", date: new Date(2026, 9, 19, 14, 5) },
+    ],
+    [
+      "remind me in five minutes to call mom",
+      { taskRef: "call mom", date: new Date(2026, 9, 19, 14, 5) },
+    ],
+    [
+      "remind me to call mom tomorrow at 6",
+      { taskRef: "call mom", date: new Date(2026, 9, 20, 18, 0) },
+    ],
+    [
+      "remind me to call mom tonight at 8",
+      { taskRef: "call mom", date: new Date(2026, 9, 19, 20, 0) },
+    ],
+  ])("%s", (phrase, { taskRef, date }) => {
+    expect(parseIntent(phrase)).toMatchObject({
+      type: "setReminder",
+      taskRef,
+      when: { kind: "instant", date },
+    });
+  });
+
+  it("keeps spoken numbers in a new name", () => {
+    expect(parseIntent("rename the report to second opinion")).toMatchObject({
+      type: "editTask",
+      changes: { title: "second opinion" },
+    });
+  });
+
+  it("searches for the words as said", () => {
+    expect(parseIntent("search for one drive")).toMatchObject({
+      type: "changeView",
+      view: { search: "one drive" },
+    });
+  });
+});
@@ -0,0 +1,1060 @@
+// src/lib/intents.ts
+// ------------------------------------------------------
+// Voice Intent Recognition
+// Turns a transcript into a typed intent with slots, so
+// command handlers never inspect the raw string.
+// ------------------------------------------------------
+
+import { normalizeNumbers, removeSpoken } from "@/lib/numbers";
+import { firstOccurrence, parseRecurrence } from "@/lib/recurrence";
+import { parseTagList } from "@/lib/tags";
+import { parseDuration } from "@/lib/time-tracking";
+import {
+  TemporalExpression,
+  parseTemporal,
+  toLocalDateString,
+  toLocalTimeString,
+} from "@/lib/temporal";
+import { defaultTaskListView } from "@/lib/utils";
+import { parseDueFromSpeech, voiceCommands } from "@/lib/voice";
+import { RecurrenceRule, Task, TaskListView, TaskQuery } from "@/types/task";
+
+export interface TaskSlots {
+  title?: string;
+  priority?: Task["priority"];
+  category?: string;
+  tags?: string[];
+  dueDate?: string;
+  // Only when a time of day was said with the date: "friday at 3pm"
+  dueTime?: string;
+  reminder?: TemporalExpression;
+  recurrence?: RecurrenceRule;
+  estimatedMinutes?: number;
+}
+
+export type IntentPayload =
+  | { type: "createTask"; slots: TaskSlots }
+  | { type: "completeTask"; taskRef: string }
+  | { type: "reopenTask"; taskRef: string }
+  | { type: "deleteTask"; taskRef: string }
+  // Brings a task back out of the trash
+  | { type: "restoreTask"; taskRef: string }
+  | { type: "editTask"; taskRef: string; changes: TaskSlots }
+  | { type: "setReminder"; taskRef: string; when?: TemporalExpression }
+  | { type: "cancelReminder"; taskRef: string }
+  | { type: "addSubtask"; taskRef: string; title: string }
+  // Without a task the step is looked for on every open task
+  | { type: "completeSubtask"; stepRef: string; taskRef?: string }
+  | { type: "subtaskProgress"; taskRef: string }
+  // The column as spoken ("in progress", "review"); resolved against
+  // the board's columns by the handler
+  | { type: "setStatus"; taskRef: string; status: string }
+  // "X is blocked by Y"; remove drops the link
+  | { type: "linkTasks"; taskRef: string; blockerRef: string; remove?: boolean }
+  // An end of the list, or above or below the task anchorRef names
+  | {
+      type: "reorderTask";
+      taskRef: string;
+      position: "top" | "bottom" | "above" | "below";
+      anchorRef?: string;
+    }
+  | { type: "blockerQuery"; taskRef: string }
+  | { type: "startTimer"; taskRef: string }
+  // Without a task, whichever timer is running
+  | { type: "stopTimer"; taskRef?: string }
+  | { type: "timeSpent"; taskRef: string }
+  // No taskRef means "it": the task talked about last
+  | { type: "tagTask"; taskRef?: string; tags: string[]; remove?: boolean }
+  | { type: "query"; query: TaskQuery }
+  | { type: "changeView"; view: Partial<TaskListView> }
+  | { type: "help" }
+  | { type: "unknown" };
+
+export type VoiceIntent = IntentPayload & {
+  transcript: string;
+  // 0-1; how sure the parser is that this is what the user meant
+  confidence: number;
+};
+
+interface IntentRule {
+  // Anchored at the start of a clause
+  pattern: RegExp;
+  confidence: number;
+  // Create commands keep reading past commas to collect their slots
+  spansClauses?: boolean;
+  build: (match: RegExpMatchArray) => IntentPayload | null;
+}
+
+const POLITE = String.raw`(?:(?:please|can you|could you|would you|i want to|i'd like to|let's)\s+)?`;
+
+const EDITABLE_FIELD =
+  "priority|category|tags|tag|due date|deadline|estimate|title|name";
+
+// "it", "this one", "that task": the task talked about last
+const PRONOUN_REF = /^(?:it|this|that|this one|that one|this task|that task)$/;
+
+const STEP = String.raw`(?:step|subtask|sub-task|sub task|checklist item|item)`;
+
+// Built-in statuses as they are said, see lib/workflow
+const STATUS_WORDS =
+  "to do|todo|not started|in progress|doing|started|blocked|stuck|on hold|waiting";
+
+// Words that separate one instruction from the next, e.g.
+// "i'm done with the report, now create task"
+const CLAUSE_BOUNDARY =
+  /\s*[,.;!?]\s*(?:(?:and then|then|now|okay|ok|also)\s+)?|\s+(?:and then|then|now|okay|ok|also)\s+/g;
+
+const rules: IntentRule[] = [
+  {
+    pattern: new RegExp(
+      String.raw`^${POLITE}(?:create|add|make|new)\s+(?:a\s+)?(?:new\s+)?task\b(?:\s+(?:called|named|to|for))?\s*(.*)$`
+    ),
+    confidence: 0.95,
+    spansClauses: true,
+    build: (match) => ({ type: "createTask", slots: parseTaskSlots(match[1]) }),
+  },
+  {
+    // "add step buy paint to renovate kitchen"; the last "to" splits the
+    // step from the task
+    pattern: new RegExp(
+      String.raw`^${POLITE}(?:add|put)\s+(?:a\s+)?(?:new\s+)?${STEP}\s+(.+)\s+(?:to|under|onto)\s+(.+)$`
+    ),
+    confidence: 0.95,
+    build: (match) => {
+      const title = match[1].replace(/^(?:called|named)\s+/, "").trim();
+      const taskRef = cleanTaskRef(
+        match[2].replace(/(?:'s)?\s+(?:checklist|steps)$/, "")
+      );
+      return title && taskRef ? { type: "addSubtask", taskRef, title } : null;
+    },
+  },
+  {
+    pattern: new RegExp(
+      String.raw`^${POLITE}(?:(?:clear|reset|remove)\s+(?:all\s+)?(?:the\s+)?(?:filters?|search)|show\s+(?:me\s+)?everything)\b`
+    ),
+    confidence: 0.95,
+    build: () => ({ type: "changeView", view: { ...defaultTaskListView } }),
+  },
+  {
+    pattern: new RegExp(
+      String.raw`^${POLITE}(?:search|look|find)\s+(?:for\s+)?(?:(?:the\s+)?tasks?\s+(?:about|with|called|named|mentioning)\s+)?(.+)$`
+    ),
+    confidence: 0.9,
+    build: (match) => {
+      const search = match[1].replace(/[.,!?]+$/, "").trim();
+      return search ? { type: "changeView", view: { search } } : null;
+    },
+  },
+  {
+    pattern: new RegExp(
+      String.raw`^${POLITE}(?:show|display|filter(?:\s+by)?|switch to)\s+(?:me\s+)?(.+)$`
+    ),
+    confidence: 0.9,
+    build: (match) => {
+      const view = parseViewFilter(match[1]);
+      return view ? { type: "changeView", view } : null;
+    },
+  },
+  {
+    pattern: new RegExp(
+      String.raw`^${POLITE}(?:reopen|re-open|uncomplete|unfinish)\s+(.+)$`
+    ),
+    confidence: 0.9,
+    build: (match) => taskRefIntent("reopenTask", match[1]),
+  },
+  {
+    // "check off step buy paint in renovate kitchen", "mark step 2 as done"
+    pattern: new RegExp(
+      String.raw`^${POLITE}(?:check off|tick off|complete|finish|mark)\s+(?:the\s+)?${STEP}\s+(.+?)(?:\s+as\s+(?:done|complete|completed|finished))?(?:\s+(?:in|on|of|for|from)\s+(.+?))?$`
+    ),
+    confidence: 0.95,
+    build: (match) => {
+      const stepRef = cleanTaskRef(match[1]);
+      const taskRef = match[2] ? cleanTaskRef(match[2]) : undefined;
+      return stepRef ? { type: "completeSubtask", stepRef, taskRef } : null;
+    },
+  },
+  {
+    pattern: new RegExp(
+      String.raw`^${POLITE}mark\s+(.+?)\s+as\s+(?:not done|not complete|not finished|incomplete|undone|active|open)$`
+    ),
+    confidence: 0.95,
+    build: (match) => taskRefIntent("reopenTask", match[1]),
+  },
+  {
+    pattern: new RegExp(
+      String.raw`^${POLITE}mark\s+(.+?)\s+as\s+(?:done|complete|completed|finished)$`
+    ),
+    confidence: 0.95,
+    build: (match) => taskRefIntent("completeTask", match[1]),
+  },
+  {
+    pattern: new RegExp(
+      String.raw`^${POLITE}(?:complete|finish|check off|tick off)\s+(.+)$`
+    ),
+    confidence: 0.9,
+    build: (match) => taskRefIntent("completeTask", match[1]),
+  },
+  {
+    pattern:
+      /^i(?:'m| am|'ve| have)?\s+(?:done with|finished|completed)\s+(.+)$/,
+    confidence: 0.8,
+    build: (match) => taskRefIntent("completeTask", match[1]),
+  },
+  {
+    pattern: new RegExp(
+      String.raw`^${POLITE}(?:(?:cancel|remove|delete|clear|turn off)\s+(?:all\s+)?(?:the\s+|my\s+)?reminders?\s+(?:for|about|on|of)|stop reminding me\s+(?:about|of|to))\s+(.+)$`
+    ),
+    confidence: 0.95,
+    build: (match) => {
+      const taskRef = cleanTaskRef(match[1]);
+      return taskRef ? { type: "cancelReminder", taskRef } : null;
+    },
+  },
+  {
+    // "start the timer on the report", "start tracking time for taxes"
+    pattern: new RegExp(
+      String.raw`^${POLITE}(?:(?:start|begin|resume)\s+(?:a\s+|the\s+|my\s+)?(?:timer|clock|tracking(?:\s+time)?)|track\s+time)\s+(?:on|for)\s+(.+)$`
+    ),
+    confidence: 0.95,
+    build: (match) => {
+      const taskRef = cleanTaskRef(match[1]);
+      return taskRef ? { type: "startTimer", taskRef } : null;
+    },
+  },
+  {
+    pattern: new RegExp(
+      String.raw`^${POLITE}(?:stop|pause|end)\s+(?:the\s+|my\s+)?(?:timer|clock|tracking(?:\s+time)?)(?:\s+(?:on|for)\s+(.+))?$`
+    ),
+    confidence: 0.95,
+    build: (match) => ({
+      type: "stopTimer",
+      taskRef: match[1] ? cleanTaskRef(match[1]) || undefined : undefined,
+    }),
+  },
+  {
+    // "how long have i spent on taxes", "how long did the report take"
+    pattern: new RegExp(
+      String.raw`^${POLITE}(?:how (?:long|much time) (?:have i|did i|i've|i have) (?:spent|spend|worked|work|been working) on\s+(.+)|how long (?:did|has)\s+(.+?)\s+(?:take|taken)(?:\s+so far)?)$`
+    ),
+    confidence: 0.95,
+    build: (match) => {
+      const taskRef = cleanTaskRef(match[1] ?? match[2]);
+      return taskRef ? { type: "timeSpent", taskRef } : null;
+    },
+  },
+  {
+    // "start working on the report", "begin on taxes"
+    pattern: new RegExp(
+      String.raw`^${POLITE}(?:start|begin)(?:\s+(?:working|work))?\s+on\s+(.+)$`
+    ),
+    confidence: 0.95,
+    build: (match) => statusIntent(match[1], "in progress"),
+  },
+  {
+    pattern:
+      /^i(?:'m| am)\s+(?:now\s+)?(working on|stuck on|blocked on)\s+(.+)$/,
+    confidence: 0.85,
+    build: (match) =>
+      statusIntent(
+        match[2],
+        match[1] === "working on" ? "in progress" : "blocked"
+      ),
+  },
+  {
+    pattern: new RegExp(
+      String.raw`^${POLITE}(?:mark|set|flag)\s+(.+?)\s+as\s+(?:the\s+)?(${STATUS_WORDS})$`
+    ),
+    confidence: 0.95,
+    build: (match) => statusIntent(match[1], match[2]),
+  },
+  {
+    // Before the column rule, which would read "top of the list" as one
+    pattern: new RegExp(
+      String.raw`^${POLITE}(?:move|put|bump)\s+(.+?)\s+(?:(?:up|down|back)\s+)?to\s+the\s+(top|bottom|start|end|front|back)(?:\s+of\s+(?:the\s+|my\s+)?(?:list|tasks))?$`
+    ),
+    confidence: 0.95,
+    build: (match) =>
+      reorderIntent(
+        match[1],
+        /^(?:top|start|front)$/.test(match[2]) ? "top" : "bottom"
+      ),
+  },
+  {
+    // Any column by name: "move the report to the review column"
+    pattern: new RegExp(
+      String.raw`^${POLITE}(?:move|put|drag)\s+(.+?)\s+(?:back\s+)?(?:to|into|in|under)\s+(?:the\s+)?(.+?)\s+(?:column|list|lane)$`
+    ),
+    confidence: 0.95,
+    build: (match) => statusIntent(match[1], match[2]),
+  },
+  {
+    // Before "move X to friday", which would read "blocked" as a date
+    pattern: new RegExp(
+      String.raw`^${POLITE}(?:move|put)\s+(.+?)\s+(?:back\s+)?(?:to|into|in)\s+(?:the\s+)?(${STATUS_WORDS}|done)$`
+    ),
+    confidence: 0.95,
+    build: (match) => statusIntent(match[1], match[2]),
+  },
+  {
+    // "move the report below the slides"; after the column rules, so
+    // "under the review column" still changes the status
+    pattern: new RegExp(
+      String.raw`^${POLITE}(?:move|put|drag)\s+(.+?)\s+(?:(?:right|just)\s+)?(below|under|underneath|after|above|before|ahead of)\s+(.+)$`
+    ),
+    confidence: 0.9,
+    build: (match) =>
+      reorderIntent(
+        match[1],
+        /^(?:above|before|ahead of)$/.test(match[2]) ? "above" : "below",
+        match[3]
+      ),
+  },
+  {
+    pattern: new RegExp(
+      String.raw`^${POLITE}(?:change|set|update)\s+(?:the\s+)?status\s+(?:of|for|on)\s+(.+?)\s+to\s+(.+)$`
+    ),
+    confidence: 0.95,
+    build: (match) => statusIntent(match[1], match[2]),
+  },
+  {
+    pattern: new RegExp(
+      String.raw`^${POLITE}(.+?)\s+(?:no longer|doesn't|does not|don't|do not|isn't|is not)\s+(?:depends? on|waiting (?:on|for)|blocked by)\s+(.+?)(?:\s+any\s?more)?$`
+    ),
+    confidence: 0.9,
+    build: (match) => linkIntent(match[1], match[2], true),
+  },
+  {
+    // "the report is blocked by the data export", "taxes depend on w2"
+    pattern: new RegExp(
+      String.raw`^${POLITE}(?:make\s+)?(.+?)\s+(?:is\s+|be\s+)?(?:blocked by|depends? on|waits? (?:on|for)|is waiting (?:on|for)|can't start until|cannot start until)\s+(.+?)(?:\s+is\s+(?:done|finished))?$`
+    ),
+    confidence: 0.9,
+    build: (match) => linkIntent(match[1], match[2]),
+  },
+  {
+    pattern: new RegExp(
+      String.raw`^${POLITE}(.+?)\s+(?:is blocking|blocks)\s+(.+)$`
+    ),
+    confidence: 0.85,
+    build: (match) => linkIntent(match[2], match[1]),
+  },
+  {
+    // "tag it with urgent and client", "label the report as work"
+    pattern: new RegExp(
+      String.raw`^${POLITE}(?:tag|label)\s+(.+?)\s+(?:with|as)\s+(?:the\s+)?(?:tags?\s+)?(.+)$`
+    ),
+    confidence: 0.95,
+    build: (match) => tagIntent(match[1], match[2]),
+  },
+  {
+    pattern: new RegExp(
+      String.raw`^${POLITE}(?:add|put)\s+(?:the\s+)?tags?\s+(.+?)\s+(?:to|on)\s+(.+)$`
+    ),
+    confidence: 0.95,
+    build: (match) => tagIntent(match[2], match[1]),
+  },
+  {
+    pattern: new RegExp(
+      String.raw`^${POLITE}(?:remove|delete|take off)\s+(?:the\s+)?tags?\s+(.+?)\s+(?:from|on)\s+(.+)$`
+    ),
+    confidence: 0.95,
+    build: (match) => tagIntent(match[2], match[1], true),
+  },
+  {
+    pattern: new RegExp(
+      String.raw`^${POLITE}(?:restore|undelete|recover|bring back)\s+(.+?)(?:\s+from\s+(?:the\s+)?(?:trash|bin))?$`
+    ),
+    confidence: 0.9,
+    build: (match) => taskRefIntent("restoreTask", match[1]),
+  },
+  {
+    pattern: new RegExp(
+      String.raw`^${POLITE}(?:take|get)\s+(.+?)\s+(?:back\s+)?out of\s+(?:the\s+)?(?:trash|bin)$`
+    ),
+    confidence: 0.9,
+    build: (match) => taskRefIntent("restoreTask", match[1]),
+  },
+  {
+    pattern: new RegExp(
+      String.raw`^${POLITE}(?:delete|remove|erase|get rid of)\s+(.+)$`
+    ),
+    confidence: 0.9,
+    build: (match) => taskRefIntent("deleteTask", match[1]),
+  },
+  {
+    pattern: new RegExp(
+      String.raw`^${POLITE}(?:change|set|update|make)\s+(?:the\s+)?(${EDITABLE_FIELD})\s+(?:of|for|on)\s+(.+?)\s+to\s+(.+)$`
+    ),
+    confidence: 0.95,
+    build: (match) => fieldEditIntent(match[2], match[1], match[3]),
+  },
+  {
+    pattern: new RegExp(
+      String.raw`^${POLITE}(?:change|set|update)\s+(.+?)(?:'s|s')\s+(${EDITABLE_FIELD})\s+to\s+(.+)$`
+    ),
+    confidence: 0.9,
+    build: (match) => fieldEditIntent(match[1], match[2], match[3]),
+  },
+  {
+    pattern: new RegExp(
+      String.raw`^${POLITE}rename\s+(.+?)\s+(?:to|as)\s+(.+)$`
+    ),
+    confidence: 0.95,
+    build: (match) => fieldEditIntent(match[1], "title", match[2]),
+  },
+  {
+    pattern: new RegExp(
+      String.raw`^${POLITE}(?:move|reschedule|postpone|push)\s+(.+?)\s+(?:to|until|till)\s+(.+)$`
+    ),
+    confidence: 0.9,
+    build: (match) => fieldEditIntent(match[1], "due date", match[2]),
+  },
+  {
+    pattern: new RegExp(
+      String.raw`^${POLITE}make\s+(.+?)\s+(?:a\s+)?(high|medium|low|urgent|normal)\s+priority$`
+    ),
+    confidence: 0.9,
+    build: (match) => fieldEditIntent(match[1], "priority", match[2]),
+  },
+  {
+    pattern: new RegExp(
+      String.raw`^${POLITE}(?:edit|change|update|modify)\s+(.+?)(?:\s+to\s+(.+))?$`
+    ),
+    confidence: 0.75,
+    build: (match) => {
+      const taskRef = cleanTaskRef(match[1]);
+      if (!taskRef) return null;
+      return {
+        type: "editTask",
+        taskRef,
+        changes: match[2] ? parseTaskSlots(match[2]) : {},
+      };
+    },
+  },
+  {
+    pattern: new RegExp(
+      String.raw`^${POLITE}remind me\s+(?:about|of|to)\s+(.+)$`
+    ),
+    confidence: 0.9,
+    build: (match) => {
+      const { head, when } = splitTrailingTemporal(match[1]);
+      const taskRef = cleanTaskRef(head);
+      if (!taskRef) return null;
+      return { type: "setReminder", taskRef, when };
+    },
+  },
+  {
+    // The time first: "remind me in five minutes to call mom"
+    pattern: new RegExp(String.raw`^${POLITE}remind me\s+(.+)$`),
+    confidence: 0.9,
+    build: (match) => {
+      const { head, when } = splitLeadingTemporal(match[1]);
+      const taskRef =
+        when && cleanTaskRef(head.replace(/^(?:about|of|to)\s+/, ""));
+      return taskRef ? { type: "setReminder", taskRef, when } : null;
+    },
+  },
+  {
+    pattern: new RegExp(
+      String.raw`^${POLITE}(?:how far along (?:is|am i with|are we with)|how far am i with|(?:what's|whats|what is) (?:the progress|left to do|left) (?:on|of|for|in)|what steps are left (?:on|for|in)|(?:read|list|show)(?: me)? the (?:steps|checklist) (?:for|of|on))\s+(.+)$`
+    ),
+    confidence: 0.95,
+    build: (match) => {
+      const taskRef = cleanTaskRef(match[1]);
+      return taskRef ? { type: "subtaskProgress", taskRef } : null;
+    },
+  },
+  {
+    pattern: new RegExp(
+      String.raw`^${POLITE}(?:what(?:'s|s| is) (?:blocking|holding up)\s+|what (?:is|does|do) (?!i)(.+?) (?:waiting (?:on|for)|wait (?:on|for)|depend on)\s*)(.*)$`
+    ),
+    confidence: 0.95,
+    build: (match) => {
+      const taskRef = cleanTaskRef(match[1] ?? match[2]);
+      return taskRef ? { type: "blockerQuery", taskRef } : null;
+    },
+  },
+  {
+    pattern: new RegExp(
+      String.raw`^${POLITE}(?:show|list|read|view|tell me|what are|what's|whats|what is|what|which|how many|do i have|did i|have i|is there|are there|is anything|anything)\b.*$`
+    ),
+    confidence: 0.9,
+    build: (match) => {
+      const query = parseTaskQuery(match[0]);
+      return query ? { type: "query", query } : null;
+    },
+  },
+  {
+    // After queries, so "what is blocked" is a question
+    pattern: /^(.+?)\s+is\s+(?:now\s+)?(blocked|stuck|on hold|in progress)$/,
+    confidence: 0.8,
+    build: (match) => statusIntent(match[1], match[2]),
+  },
+  {
+    pattern: /^(?:help|what can you do|what are the commands|commands)\b/,
+    confidence: 0.9,
+    build: () => ({ type: "help" }),
+  },
+];
+
+// ------------------------------------------------------
+// Intent Parsing
+// ------------------------------------------------------
+
+export function parseIntent(transcript: string): VoiceIntent {
+  // Numbers stay as spoken, so titles and searches keep them; the date,
+  // priority, duration and reference parsers read them as digits
+  const text = transcript.toLowerCase().trim().replace(/\s+/g, " ");
+  let best: VoiceIntent = { type: "unknown", transcript, confidence: 0 };
+
+  for (const start of clauseStarts(text)) {
+    const rest = text.slice(start);
+    const clause = rest.split(CLAUSE_BOUNDARY)[0];
+
+    for (const rule of rules) {
+      const match = (rule.spansClauses ? rest : clause).match(rule.pattern);
+      if (!match) continue;
+
+      const payload = rule.build(match);
+      if (!payload) continue;
+
+      // Later clauses win ties: "..., now create task" is the latest request
+      if (rule.confidence >= best.confidence) {
+        best = { ...payload, transcript, confidence: rule.confidence };
+      }
+      break;
+    }
+  }
+
+  return best.type === "unknown" ? spotKeywords(text, transcript) : best;
+}
+
+function clauseStarts(text: string): number[] {
+  const starts = [0];
+  for (const match of text.matchAll(CLAUSE_BOUNDARY)) {
+    starts.push(match.index! + match[0].length);
+  }
+  return starts.filter((start) => start < text.length);
+}
+
+// Last resort for phrasings no rule covers: a whole-word keyword anywhere
+// in the sentence, at low confidence.
+function spotKeywords(text: string, transcript: string): VoiceIntent {
+  const has = (phrases: string[]) =>
+    phrases.some((phrase) => new RegExp(String.raw`\b${phrase}\b`).test(text));
+
+  if (has(voiceCommands.createTask)) {
+    return { type: "createTask", slots: {}, transcript, confidence: 0.5 };
+  }
+  if (has(voiceCommands.showTasks)) {
+    return {
+      type: "query",
+      query: { kind: "list", status: "active" },
+      transcript,
+      confidence: 0.5,
+    };
+  }
+  if (has(voiceCommands.help)) {
+    return { type: "help", transcript, confidence: 0.4 };
+  }
+  return { type: "unknown", transcript, confidence: 0 };
+}
+
+function taskRefIntent(
+  type: "completeTask" | "reopenTask" | "deleteTask" | "restoreTask",
+  text: string
+): IntentPayload | null {
+  const taskRef = cleanTaskRef(text);
+  return taskRef ? { type, taskRef } : null;
+}
+
+function statusIntent(ref: string, status: string): IntentPayload | null {
+  const taskRef = cleanTaskRef(ref);
+  const column = status.replace(/[.,!?]+$/, "").trim();
+  return taskRef && column
+    ? { type: "setStatus", taskRef, status: column }
+    : null;
+}
+
+function reorderIntent(
+  ref: string,
+  position: "top" | "bottom" | "above" | "below",
+  anchor?: string
+): IntentPayload | null {
+  const taskRef = cleanTaskRef(ref);
+  if (!taskRef) return null;
+  if (anchor === undefined) return { type: "reorderTask", taskRef, position };
+  const anchorRef = cleanTaskRef(anchor);
+  return anchorRef
+    ? { type: "reorderTask", taskRef, position, anchorRef }
+    : null;
+}
+
+function linkIntent(
+  ref: string,
+  blocker: string,
+  remove = false
+): IntentPayload | null {
+  const taskRef = cleanTaskRef(ref);
+  const blockerRef = cleanTaskRef(blocker);
+  // "what is blocking the report" is a question
+  const question = /^(?:what|which|who|how)\b/;
+  if (!taskRef || !blockerRef || question.test(blockerRef)) return null;
+  return { type: "linkTasks", taskRef, blockerRef, remove };
+}
+
+function tagIntent(
+  ref: string,
+  tagList: string,
+  remove = false
+): IntentPayload | null {
+  const tags = parseTagList(tagList.replace(/\s+(?:please|tags?)$/, ""));
+  const taskRef = cleanTaskRef(ref);
+  if (tags.length === 0 || !taskRef) return null;
+  return {
+    type: "tagTask",
+    taskRef: PRONOUN_REF.test(taskRef) ? undefined : taskRef,
+    tags,
+    remove,
+  };
+}
+
+// "change the priority of dentist to high" -> { priority: "high" }
+function fieldEditIntent(
+  ref: string,
+  field: string,
+  value: string
+): IntentPayload | null {
+  const taskRef = cleanTaskRef(ref);
+  const spoken = value.replace(/\s+(?:please|priority)$/, "").trim();
+  if (!taskRef || !spoken) return null;
+
+  const changes: TaskSlots = {};
+  switch (field) {
+    case "priority": {
+      // "priority one" is high
+      const priority = priorityWords[normalizeNumbers(spoken)];
+      if (!priority) return null;
+      changes.priority = priority;
+      break;
+    }
+    case "category":
+      changes.category = spoken;
+      break;
+    case "tags":
+    case "tag":
+      changes.tags = parseTagList(spoken);
+      if (changes.tags.length === 0) return null;
+      break;
+    case "due date":
+    case "deadline": {
+      const due = parseDueFromSpeech(spoken);
+      if (!due) return null;
+      changes.dueDate = due.dueDate;
+      if (due.dueTime) changes.dueTime = due.dueTime;
+      break;
+    }
+    case "estimate":
+      changes.estimatedMinutes = parseDuration(spoken) ?? undefined;
+      if (!changes.estimatedMinutes) return null;
+      break;
+    default:
+      changes.title = spoken;
+  }
+
+  return { type: "editTask", taskRef, changes };
+}
+
+// "the task called weekly report please" -> "weekly report"
+export function cleanTaskRef(text: string): string {
+  return text
+    .replace(/^(?:the\s+|my\s+)?(?:task\s+)?(?:called\s+|named\s+)?/, "")
+    .replace(/\s+(?:task|please|for me|now)$/, "")
+    .replace(/[.,!?]+$/, "")
+    .trim();
+}
+
+// ------------------------------------------------------
+// Slot Extraction
+// ------------------------------------------------------
+
+const slotPatterns = {
+  priority:
+    /\b(?:(high|medium|low|urgent|normal)\s+priority|priority\s+(?:is\s+|of\s+|level\s+)?(high|medium|low|[123]))\b/,
+  category:
+    /\b(?:in\s+(?:the\s+)?(?:category\s+)?(\w+)\s+category|(?:in\s+)?category\s+(?:is\s+)?(\w+))\b/,
+  reminder: /\bremind me\s+([^,;]+)/,
+  // "should take 2 hours", "estimated at half an hour"
+  estimate:
+    /\b(?:estimated?\s+(?:at|to take)|should take|will take|takes)\s+(?:about\s+|around\s+)?((?:an?|half an|\d+(?:\.\d+)?)\s+(?:hours?|minutes?|mins?)(?:\s+and\s+(?:a half|\d+\s+minutes?))?)/,
+  tags: /\b(?:tagged(?:\s+(?:with|as))?|with\s+(?:the\s+)?tags?)\s+([^,;]+)/,
+  dueDate: /\b(?:due|by)\s+([^,;]+)/,
+};
+
+const priorityWords: Record<string, Task["priority"]> = {
+  high: "high",
+  urgent: "high",
+  medium: "medium",
+  normal: "medium",
+  low: "low",
+  // "priority one" is the most urgent
+  "1": "high",
+  "2": "medium",
+  "3": "low",
+};
+
+// "high", "urgent", "priority one" -> "high"; undefined when no
+// priority was heard
+export function parsePriority(speech: string): Task["priority"] | undefined {
+  const match = normalizeNumbers(speech.toLowerCase()).match(
+    /\b(high|urgent|medium|normal|low|[123])\b/
+  );
+  return match ? priorityWords[match[1]] : undefined;
+}
+
+// Pulls priority, category, due date and reminder phrases out of free
+// text; whatever is left in the first segment becomes the title.
+export function parseTaskSlots(text: string): TaskSlots {
+  const slots: TaskSlots = {};
+  let remaining = ` ${text.trim()} `;
+
+  const take = (pattern: RegExp): RegExpMatchArray | null => {
+    const match = remaining.match(pattern);
+    if (match) remaining = remaining.replace(match[0], " ");
+    return match;
+  };
+  // For phrases with numbers in them ("priority one", "two hours"),
+  // leaving the rest of the text as it was said
+  const takeNumeric = (pattern: RegExp): RegExpMatchArray | null => {
+    const match = normalizeNumbers(remaining).match(pattern);
+    if (match) remaining = removeSpoken(remaining, match[0]);
+    return match;
+  };
+
+  const priority = takeNumeric(slotPatterns.priority);
+  if (priority) slots.priority = priorityWords[priority[1] ?? priority[2]];
+
+  const category = take(slotPatterns.category);
+  if (category) slots.category = category[1] ?? category[2];
+
+  // Before reminders and due dates, which would read "2 hours" as a time
+  const estimate = takeNumeric(slotPatterns.estimate);
+  if (estimate) {
+    slots.estimatedMinutes = parseDuration(estimate[1]) ?? undefined;
+  }
+
+  // Before due dates, so "until friday" ends the series instead
+  const recurrence = parseRecurrence(remaining);
+  if (recurrence) {
+    slots.recurrence = recurrence.rule;
+    remaining = ` ${recurrence.rest} `;
+  }
+
+  const tags = take(slotPatterns.tags);
+  if (tags) slots.tags = parseTagList(tags[1]);
+
+  // "remind me to water the plants in 2 hours" may be all there is, so
+  // the words around the time are kept in case they are the title
+  let reminderText = "";
+  const reminder = take(slotPatterns.reminder);
+  if (reminder) {
+    const whole = parseTemporal(reminder[1]);
+    let split = whole?.rest ? splitTrailingTemporal(reminder[1]) : null;
+    if (split && !split.when) split = splitLeadingTemporal(reminder[1]);
+    if (split?.when || !whole) {
+      const spoken = split?.when ? split.head : reminder[1];
+      reminderText = spoken.trim().replace(/^(?:about|of)\s+/, "");
+    }
+    slots.reminder = split?.when ?? whole ?? undefined;
+  }
+
+  const due = remaining.match(slotPatterns.dueDate);
+  const spokenDue = due && parseDueFromSpeech(due[1]);
+  if (due && spokenDue) {
+    slots.dueDate = spokenDue.dueDate;
+    if (spokenDue.dueTime) slots.dueTime = spokenDue.dueTime;
+    remaining = remaining.replace(due[0], " ");
+  }
+
+  // A lone "please" is politeness, not a title: "new task please"
+  const [head = "", ...others] = remaining
+    .split(/\s*[,;]\s*/)
+    .map((segment) => segment.replace(/\s+/g, " ").trim())
+    .filter(
+      (segment) => segment && !/^(?:please|thanks|thank you)$/.test(segment)
+    );
+
+  let first = head;
+  if (!slots.dueDate) {
+    const trailing = splitTrailingTemporal(head);
+    if (trailing.when && trailing.when.kind !== "beforeDue") {
+      first = trailing.head;
+      slots.dueDate = toLocalDateString(trailing.when.date);
+      if (trailing.when.kind === "instant") {
+        slots.dueTime = toLocalTimeString(trailing.when.date);
+      }
+    }
+  }
+
+  // Bare trailing segments: "..., finance, tomorrow"
+  for (const segment of others) {
+    const date = parseDueFromSpeech(segment);
+    if (!slots.dueDate && date && segment.split(" ").length <= 3) {
+      slots.dueDate = date.dueDate;
+      if (date.dueTime) slots.dueTime = date.dueTime;
+    } else if (!slots.category && segment.split(" ").length <= 2) {
+      slots.category = segment;
+    }
+  }
+
+  // "water the plants every monday" is first due on the coming monday
+  if (slots.recurrence && !slots.dueDate) {
+    slots.dueDate = toLocalDateString(
+      firstOccurrence(slots.recurrence, new Date())
+    );
+  }
+
+  const title = (first || reminderText)
+    .replace(/^(?:to|called|named|for)\s+/, "")
+    .replace(/\s+(?:please|thanks|thank you)$/, "")
+    .trim();
+  if (title) slots.title = title;
+
+  return slots;
+}
+
+// A time said straight after a task name: "call mom next friday",
+// "the dentist in 20 minutes", "rent an hour before it's due". The
+// longest ending that is nothing but a time phrase wins, and at
+// least one word is left for the name. A time that is the subject
+// stays in the name: "email bob about friday".
+function splitTrailingTemporal(text: string): {
+  head: string;
+  when?: TemporalExpression;
+} {
+  const words = text.trim().split(/\s+/);
+  for (let start = 1; start < words.length; start++) {
+    const head = words.slice(0, start).join(" ");
+    const parsed = parseTemporal(words.slice(start).join(" "));
+    if (parsed && !parsed.rest && !/\b(?:about|regarding|re)$/.test(head)) {
+      return { head, when: parsed };
+    }
+  }
+  return { head: text };
+}
+
+// A time said before the task: "in five minutes to call mom". The
+// longest start that is nothing but a time phrase wins, and at least
+// one word is left for the name.
+function splitLeadingTemporal(text: string): {
+  head: string;
+  when?: TemporalExpression;
+} {
+  const words = text.trim().split(/\s+/);
+  for (let end = words.length - 1; end >= 1; end--) {
+    const parsed = parseTemporal(words.slice(0, end).join(" "));
+    if (parsed && !parsed.rest) {
+      return { head: words.slice(end).join(" "), when: parsed };
+    }
+  }
+  return { head: text };
+}
+
+// ------------------------------------------------------
+// Task Queries
+// ------------------------------------------------------
+
+const TAGGED = /\b(?:tagged|labell?ed)\s+(?:with\s+|as\s+)?(\w+)\b/;
+const TAGGED_LIST = /\b(?:tagged|labell?ed)\s+(?:with\s+|as\s+)?(.+)$/;
+
+// Words that can sit before "tasks" without naming a category,
+// including the verbs that ask the question ("show tasks")
+const NOT_A_CATEGORY = new Set([
+  "show",
+  "list",
+  "read",
+  "view",
+  "what",
+  "which",
+  "me",
+  "my",
+  "the",
+  "all",
+  "any",
+  "many",
+  "your",
+  "these",
+  "those",
+  "active",
+  "open",
+  "current",
+  "pending",
+  "outstanding",
+  "remaining",
+  "other",
+  "more",
+  "completed",
+  "finished",
+  "done",
+  "priority",
+  "overdue",
+  "due",
+  "of",
+  "progress",
+]);
+
+// "show tasks", "what's on my list", "how many work tasks are left",
+// "what's overdue", "what did i finish yesterday", "what high priority
+// tasks do i have"
+export function parseTaskQuery(text: string): TaskQuery | null {
+  const query: TaskQuery = {
+    kind: /^(?:please\s+)?how many\b/.test(text) ? "count" : "list",
+  };
+  // "what's on my list" asks for the tasks without naming them
+  let recognized = /\btasks?\b|\bon my (?:list|to ?do list|plate)\b/.test(text);
+
+  if (/\b(?:overdue|past due|late)\b/.test(text)) {
+    query.due = "overdue";
+  } else if (/\bdue\b/.test(text)) {
+    const period = text.match(
+      /\bdue\s+(?:by\s+)?(today|tonight|tomorrow|this week)\b/
+    );
+    query.due =
+      period?.[1] === "tomorrow"
+        ? "tomorrow"
+        : period?.[1] === "this week"
+        ? "thisWeek"
+        : "today";
+  }
+
+  const finished = text.match(
+    /\b(?:did i|have i|i)\s+(?:finish|finished|complete|completed|do|done|get done|got done)\b(?:.*?\b(today|yesterday|this week))?/
+  );
+  if (finished) {
+    query.completed =
+      finished[1] === "yesterday"
+        ? "yesterday"
+        : finished[1] === "this week"
+        ? "thisWeek"
+        : "today";
+  }
+
+  const priority = text.match(/\b(high|medium|low|urgent)[\s-]priority\b/);
+  if (priority) query.priority = priorityWords[priority[1]];
+
+  if (
+    /\b(?:can i (?:work on|start|do|pick up)|ready|unblocked|not blocked)\b/.test(
+      text
+    )
+  ) {
+    query.ready = true;
+  } else if (/\b(?:working on|in progress|started)\b/.test(text)) {
+    query.workflow = "in-progress";
+  } else if (/\b(?:blocked|stuck|on hold)\b/.test(text)) {
+    query.workflow = "blocked";
+  }
+
+  // "tagged urgent" names a tag even when it is also a priority word
+  const tagged = text.match(TAGGED);
+  const category =
+    text.match(/\b(?:in|under)\s+(?:the\s+)?(\w+)\s+category\b/) ??
+    text.match(/\b(?:category|in)\s+(\w+)\s*$/) ??
+    text.match(/\b(\w+)\s+tasks?\b/);
+  if (tagged) {
+    query.category = tagged[1];
+  } else if (
+    category &&
+    !NOT_A_CATEGORY.has(category[1]) &&
+    !priorityWords[category[1]]
+  ) {
+    query.category = category[1];
+  }
+
+  if (query.completed || /\b(?:completed|finished|done)\s+tasks\b/.test(text)) {
+    query.status = "completed";
+  } else {
+    query.status = "active";
+  }
+
+  recognized ||= !!(
+    query.due ||
+    query.completed ||
+    tagged ||
+    query.workflow ||
+    query.ready
+  );
+  return recognized ? query : null;
+}
+
+// ------------------------------------------------------
+// List View
+// ------------------------------------------------------
+
+const viewFilterWords: Record<string, TaskListView["filter"]> = {
+  all: "all",
+  every: "all",
+  active: "active",
+  open: "active",
+  remaining: "active",
+  pending: "active",
+  incomplete: "active",
+  unfinished: "active",
+  completed: "completed",
+  finished: "completed",
+  done: "completed",
+};
+
+// "completed tasks", "only high priority", "all tasks". Returns null
+// when nothing names a filter, so "show my tasks" is read out instead.
+export function parseViewFilter(text: string): Partial<TaskListView> | null {
+  // "tagged urgent and client" names tags, not a priority
+  const tagged = text.match(TAGGED_LIST);
+  const rest = tagged ? text.slice(0, tagged.index) : text;
+  const status = rest.match(
+    /\b(all|every|active|open|remaining|pending|incomplete|unfinished|completed|finished|done)\b/
+  );
+  const priority = rest.match(/\b(high|medium|low|urgent)(?:[\s-]priority)?\b/);
+  if (!status && !priority && !tagged) return null;
+
+  const view: Partial<TaskListView> = {};
+  if (tagged) view.tags = parseTagList(tagged[1]);
+  if (status) view.filter = viewFilterWords[status[1]];
+  if (priority) {
+    view.priority = priorityWords[priority[1]];
+  } else if (view.filter === "all" && !tagged) {
+    // "show all tasks" starts over from an unfiltered list
+    return { ...defaultTaskListView };
+  }
+  return view;
+}
+
+// ------------------------------------------------------
+// Confirmations
+// ------------------------------------------------------
+
+export type Confirmation = "yes" | "no" | "unclear";
+
+// Only a whole-utterance "yes" counts, so a stray word inside a longer
+// (possibly misheard) sentence can never confirm a destructive action.
+export function parseConfirmation(transcript: string): Confirmation {
+  const text = transcript
+    .toLowerCase()
+    .replace(/[.,!?]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  if (
+    /^(?:yes|yeah|yep|yup|sure|confirm|confirmed|correct|do it|go ahead)(?: (?:please|i'm sure|i am sure|delete it|do it|go ahead))?$/.test(
+      text
+    )
+  ) {
+    return "yes";
+  }
+  if (
+    /\b(?:no|nope|cancel|stop|don't|do not|keep|never mind|wait)\b/.test(text)
+  ) {
+    return "no";
+  }
+  return "unclear";
+}
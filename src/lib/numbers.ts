@@ -0,0 +1,226 @@
+// src/lib/numbers.ts
+// ------------------------------------------------------
+// Spoken Numbers
+// Speech engines write numbers as words or digits at
+// random; parsers see digits either way.
+// ------------------------------------------------------
+
+const units: Record<string, number> = {
+  zero: 0,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  thirteen: 13,
+  fourteen: 14,
+  fifteen: 15,
+  sixteen: 16,
+  seventeen: 17,
+  eighteen: 18,
+  nineteen: 19,
+};
+
+const tens: Record<string, number> = {
+  twenty: 20,
+  thirty: 30,
+  forty: 40,
+  fifty: 50,
+  sixty: 60,
+  seventy: 70,
+  eighty: 80,
+  ninety: 90,
+};
+
+const ordinalUnits: Record<string, number> = {
+  first: 1,
+  second: 2,
+  third: 3,
+  fourth: 4,
+  fifth: 5,
+  sixth: 6,
+  seventh: 7,
+  eighth: 8,
+  ninth: 9,
+  tenth: 10,
+  eleventh: 11,
+  twelfth: 12,
+  thirteenth: 13,
+  fourteenth: 14,
+  fifteenth: 15,
+  sixteenth: 16,
+  seventeenth: 17,
+  eighteenth: 18,
+  nineteenth: 19,
+};
+
+const ordinalTens: Record<string, number> = {
+  twentieth: 20,
+  thirtieth: 30,
+  fortieth: 40,
+  fiftieth: 50,
+  sixtieth: 60,
+  seventieth: 70,
+  eightieth: 80,
+  ninetieth: 90,
+};
+
+const alternatives = (words: Record<string, number>) =>
+  Object.keys(words)
+    // Longest first so "seventeen" is not read as "seven"
+    .sort((a, b) => b.length - a.length)
+    .join("|");
+
+// "twenty one", "twenty-first", "thirtieth", "seven", "fifth"
+const NUMBER_WORDS = new RegExp(
+  String.raw`\b(?:(${alternatives(tens)})(?:[\s-](${alternatives(
+    units
+  )}|${alternatives(ordinalUnits)}))?|(${alternatives(
+    ordinalTens
+  )})|(${alternatives(units)})|(${alternatives(ordinalUnits)}))\b`,
+  "g"
+);
+
+// 1 -> "1st", 12 -> "12th", 22 -> "22nd"
+export function ordinalSuffix(n: number): string {
+  if (n % 100 >= 11 && n % 100 <= 13) return `${n}th`;
+  switch (n % 10) {
+    case 1:
+      return `${n}st`;
+    case 2:
+      return `${n}nd`;
+    case 3:
+      return `${n}rd`;
+    default:
+      return `${n}th`;
+  }
+}
+
+// "one" is a pronoun after these: "the second one", "that one"
+const PRONOUN_ONE_BEFORE =
+  /\b(?:the|this|that|which|each|every|no|any|other|another|next|same|only|\w+(?:st|nd|rd|th))\s+$/;
+
+function wordsToDigits(text: string): string {
+  return text.replace(
+    NUMBER_WORDS,
+    (
+      match: string,
+      ten: string | undefined,
+      unit: string | undefined,
+      tenth: string | undefined,
+      single: string | undefined,
+      nth: string | undefined,
+      offset: number
+    ) => {
+      if (ten) {
+        if (!unit) return String(tens[ten]);
+        if (unit in ordinalUnits) {
+          return ordinalSuffix(tens[ten] + ordinalUnits[unit]);
+        }
+        // "twenty twelve" is not a number below a hundred
+        if (units[unit] >= 10 || units[unit] === 0) return match;
+        return String(tens[ten] + units[unit]);
+      }
+      if (tenth) return ordinalSuffix(ordinalTens[tenth]);
+      if (single) {
+        if (
+          single === "one" &&
+          PRONOUN_ONE_BEFORE.test(text.slice(0, offset))
+        ) {
+          return match;
+        }
+        return String(units[single]);
+      }
+      if (nth) return ordinalSuffix(ordinalUnits[nth]);
+      return match;
+    }
+  );
+}
+
+// What "half" of each unit is counted in
+const halfUnits: Record<string, { unit: string; size: number }> = {
+  hour: { unit: "minutes", size: 60 },
+  day: { unit: "hours", size: 24 },
+};
+
+const count = (word: string) => (/^an?$/.test(word) ? 1 : parseInt(word));
+
+// Fractions and idioms, once the numbers are digits
+const phrases: [RegExp, (...groups: string[]) => string][] = [
+  [/\b(?:a )?couple(?: of)?\b/g, () => "2"],
+  [/\b(?:a )?dozen\b/g, () => "12"],
+  [
+    /\b(\d+) hundred(?: and)?(?: (\d{1,2})\b)?/g,
+    (_, h, rest) => String(parseInt(h) * 100 + (rest ? parseInt(rest) : 0)),
+  ],
+  [/\ba hundred\b/g, () => "100"],
+  // "an hour and a half", "2 and a half hours"
+  [
+    /\b(\d+|an?) (hour|day)s? and a half\b|\b(\d+|an?) and a half (hour|day)s?\b/g,
+    (_, n1, u1, n2, u2) => {
+      const { unit, size } = halfUnits[u1 || u2];
+      return `${count(n1 || n2) * size + size / 2} ${unit}`;
+    },
+  ],
+  [
+    /\bhalf (?:an |a )?(hour|day)\b/g,
+    (_, u) => `${halfUnits[u].size / 2} ${halfUnits[u].unit}`,
+  ],
+  [/\b(?:a )?quarter (?:of )?(?:an )?hour\b/g, () => "15 minutes"],
+  // Clock idioms: "quarter past 3", "half past 3", "quarter to 4"
+  [/\b(?:a )?quarter past (\d{1,2})\b/g, (_, h) => `${h}:15`],
+  [/\bhalf past (\d{1,2})\b/g, (_, h) => `${h}:30`],
+  [
+    /\b(?:a )?quarter (?:to|till|til) (\d{1,2})\b/g,
+    (_, h) => `${((parseInt(h) + 10) % 12) + 1}:45`,
+  ],
+  // "at 3 30", "3 30 pm"
+  [/\bat (\d{1,2}) ([0-5]\d)\b/g, (_, h, m) => `at ${h}:${m}`],
+  [
+    /\b(\d{1,2}) ([0-5]\d) ?(am|pm)\b/g,
+    (_, h, m, meridiem) => `${h}:${m} ${meridiem}`,
+  ],
+];
+
+// Rewrites spoken numbers as digits so every parser sees the same
+// thing whatever the engine wrote: "in two weeks" -> "in 2 weeks",
+// "march fifth" -> "march 5th", "in a couple of hours" -> "in 2 hours",
+// "half an hour" -> "30 minutes", "quarter past three" -> "3:15".
+// Expects lowercase text.
+export function normalizeNumbers(text: string): string {
+  return phrases.reduce(
+    (result, [pattern, replace]) =>
+      result.replace(pattern, (...args) =>
+        // Groups that did not take part in the match come through as ""
+        replace(...args.map((arg) => (typeof arg === "string" ? arg : "")))
+      ),
+    wordsToDigits(text)
+  );
+}
+
+// Cuts phrase, found in normalizeNumbers(text), out of text itself, so
+// what is left reads as it was said: "feed two cats every two days"
+// less "every 2 days" leaves "feed two cats". Expects lowercase text.
+export function removeSpoken(text: string, phrase: string): string {
+  const target = phrase.trim();
+  const words = [...text.matchAll(/\S+/g)];
+  for (let first = 0; first < words.length; first++) {
+    for (let last = first; last < words.length; last++) {
+      const start = words[first].index!;
+      const end = words[last].index! + words[last][0].length;
+      // Punctuation after the phrase stays, it may end a clause
+      const said = text.slice(start, end).replace(/[.,;:!?]+$/, "");
+      if (normalizeNumbers(said) === target) {
+        return `${text.slice(0, start)} ${text.slice(start + said.length)}`;
+      }
+    }
+  }
+  return normalizeNumbers(text).replace(phrase, " ");
+}
@@ -0,0 +1,55 @@
+// src/lib/ordering.ts
+// ------------------------------------------------------
+// Manual Ordering
+// Tasks keep the place the user dragged or spoke them to.
+// Moves renumber the whole list, so a move made while
+// filters hide some tasks leaves the hidden ones where
+// they were relative to each other.
+// ------------------------------------------------------
+
+import { Task } from "@/types/task";
+
+// Where to put a task: an end of the list, or next to another task
+export type OrderPosition =
+  | "top"
+  | "bottom"
+  | { before: string }
+  | { after: string };
+
+// Tasks without a place yet, like ones just created, go first; ties
+// keep their array order
+export function sortByManualOrder(tasks: Task[]): Task[] {
+  return [...tasks].sort((a, b) => (a.order ?? -1) - (b.order ?? -1));
+}
+
+// The tasks in their original array order, with order renumbered so
+// the task ends up at position; unchanged when either task is missing
+export function reorderTask(
+  tasks: Task[],
+  taskId: string,
+  position: OrderPosition
+): Task[] {
+  const ordered = sortByManualOrder(tasks);
+  const moving = ordered.find((task) => task.id === taskId);
+  if (!moving) return tasks;
+  const rest = ordered.filter((task) => task.id !== taskId);
+
+  let index: number;
+  if (position === "top") {
+    index = 0;
+  } else if (position === "bottom") {
+    index = rest.length;
+  } else {
+    const anchorId = "before" in position ? position.before : position.after;
+    const anchor = rest.findIndex((task) => task.id === anchorId);
+    if (anchor === -1) return tasks;
+    index = "before" in position ? anchor : anchor + 1;
+  }
+  rest.splice(index, 0, moving);
+
+  const orderOf = new Map(rest.map((task, i) => [task.id, i]));
+  return tasks.map((task) => {
+    const order = orderOf.get(task.id);
+    return task.order === order ? task : { ...task, order };
+  });
+}
@@ -0,0 +1,423 @@
+// src/lib/recognizers.ts
+// ------------------------------------------------------
+// Speech Recognition Backends
+// VoiceManager talks to a SpeechRecognizer; each adapter
+// maps its engine onto the same start/stop/event contract.
+// ------------------------------------------------------
+
+export type RecognizerEngine = "web-speech" | "local";
+
+export interface RecognizerResult {
+  transcript: string;
+  confidence: number;
+  isFinal: boolean;
+}
+
+export interface RecognizerError {
+  // Adapters report Web Speech API error codes so callers only handle one set
+  error: SpeechRecognitionErrorCode;
+  message?: string;
+}
+
+export interface SpeechRecognizer {
+  readonly engine: RecognizerEngine;
+  readonly description: string;
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+
+  onstart: (() => void) | null;
+  onaudiostart: (() => void) | null;
+  onsoundstart: (() => void) | null;
+  onspeechstart: (() => void) | null;
+  onspeechend: (() => void) | null;
+  onresult: ((result: RecognizerResult) => void) | null;
+  onerror: ((error: RecognizerError) => void) | null;
+  onend: (() => void) | null;
+
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+export interface RecognizerPreferences {
+  engine: RecognizerEngine | "auto";
+  localEngineUrl: string;
+}
+
+export const defaultRecognizerPreferences: RecognizerPreferences = {
+  engine:
+    (process.env.NEXT_PUBLIC_SPEECH_ENGINE as RecognizerEngine | undefined) ||
+    "auto",
+  localEngineUrl:
+    process.env.NEXT_PUBLIC_LOCAL_SPEECH_ENGINE_URL || "ws://localhost:2700",
+};
+
+// ------------------------------------------------------
+// Web Speech API adapter (Chromium, Safari)
+// ------------------------------------------------------
+
+type SpeechWindow = Window & {
+  SpeechRecognition?: SpeechRecognitionStatic;
+  webkitSpeechRecognition?: SpeechRecognitionStatic;
+};
+
+export class WebSpeechRecognizer implements SpeechRecognizer {
+  public readonly engine = "web-speech";
+  public readonly description =
+    "Web Speech API (audio is processed by the browser vendor's cloud service)";
+  private recognition: SpeechRecognition;
+
+  public onstart: (() => void) | null = null;
+  public onaudiostart: (() => void) | null = null;
+  public onsoundstart: (() => void) | null = null;
+  public onspeechstart: (() => void) | null = null;
+  public onspeechend: (() => void) | null = null;
+  public onresult: ((result: RecognizerResult) => void) | null = null;
+  public onerror: ((error: RecognizerError) => void) | null = null;
+  public onend: (() => void) | null = null;
+
+  static isSupported(): boolean {
+    return (
+      typeof window !== "undefined" &&
+      ("webkitSpeechRecognition" in window || "SpeechRecognition" in window)
+    );
+  }
+
+  constructor() {
+    const speechWindow = window as SpeechWindow;
+    const SpeechRecognitionConstructor =
+      speechWindow.SpeechRecognition || speechWindow.webkitSpeechRecognition;
+
+    if (!SpeechRecognitionConstructor) {
+      throw new Error("Speech recognition not supported in this browser");
+    }
+
+    this.recognition = new SpeechRecognitionConstructor();
+    this.recognition.onstart = () => this.onstart?.();
+    this.recognition.onaudiostart = () => this.onaudiostart?.();
+    this.recognition.onsoundstart = () => this.onsoundstart?.();
+    this.recognition.onspeechstart = () => this.onspeechstart?.();
+    this.recognition.onspeechend = () => this.onspeechend?.();
+    this.recognition.onend = () => this.onend?.();
+
+    this.recognition.onresult = (event: SpeechRecognitionEvent) => {
+      const lastResult = event.results[event.results.length - 1];
+      this.onresult?.({
+        transcript: lastResult[0].transcript,
+        confidence: lastResult[0].confidence,
+        isFinal: lastResult.isFinal,
+      });
+    };
+
+    this.recognition.onerror = (event: SpeechRecognitionErrorEvent) => {
+      this.onerror?.({ error: event.error, message: event.message });
+    };
+  }
+
+  get lang() {
+    return this.recognition.lang;
+  }
+
+  set lang(value: string) {
+    this.recognition.lang = value;
+  }
+
+  get continuous() {
+    return this.recognition.continuous;
+  }
+
+  set continuous(value: boolean) {
+    this.recognition.continuous = value;
+  }
+
+  get interimResults() {
+    return this.recognition.interimResults;
+  }
+
+  set interimResults(value: boolean) {
+    this.recognition.interimResults = value;
+  }
+
+  public start() {
+    this.recognition.start();
+  }
+
+  public stop() {
+    this.recognition.stop();
+  }
+
+  public abort() {
+    this.recognition.abort();
+  }
+}
+
+// ------------------------------------------------------
+// Local engine adapter
+// Streams 16-bit mono PCM over a WebSocket using the Vosk
+// server protocol (vosk-server, or a whisper.cpp bridge
+// speaking the same messages), so audio never leaves the host.
+// ------------------------------------------------------
+
+interface LocalEngineMessage {
+  partial?: string;
+  text?: string;
+  result?: { conf?: number; word: string }[];
+}
+
+export class LocalEngineRecognizer implements SpeechRecognizer {
+  public readonly engine = "local";
+  public readonly description: string;
+  public lang = "en-US";
+  public continuous = true;
+  public interimResults = true;
+
+  public onstart: (() => void) | null = null;
+  public onaudiostart: (() => void) | null = null;
+  public onsoundstart: (() => void) | null = null;
+  public onspeechstart: (() => void) | null = null;
+  public onspeechend: (() => void) | null = null;
+  public onresult: ((result: RecognizerResult) => void) | null = null;
+  public onerror: ((error: RecognizerError) => void) | null = null;
+  public onend: (() => void) | null = null;
+
+  private socket: WebSocket | null = null;
+  private stream: MediaStream | null = null;
+  private audioContext: AudioContext | null = null;
+  private processor: ScriptProcessorNode | null = null;
+  private closeTimeoutId?: number;
+  private running = false;
+  private stopping = false;
+  private hearingSpeech = false;
+
+  static isSupported(): boolean {
+    return (
+      typeof window !== "undefined" &&
+      "WebSocket" in window &&
+      !!navigator.mediaDevices?.getUserMedia
+    );
+  }
+
+  constructor(private url: string, private sampleRate = 16000) {
+    this.description = `Local speech engine at ${url}`;
+  }
+
+  public start() {
+    if (this.running) {
+      throw new DOMException("Recognition already started", "InvalidStateError");
+    }
+    this.running = true;
+    void this.open();
+  }
+
+  public stop() {
+    if (!this.running || this.stopping) return;
+    this.stopping = true;
+    this.stopAudio();
+
+    // Ask the engine to flush its final result, then close
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify({ eof: 1 }));
+      this.closeTimeoutId = window.setTimeout(() => this.finish(), 2000);
+    } else {
+      this.finish();
+    }
+  }
+
+  public abort() {
+    if (!this.running) return;
+    this.onerror?.({ error: "aborted" });
+    this.finish();
+  }
+
+  private async open() {
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true },
+      });
+    } catch (error) {
+      const name = error instanceof DOMException ? error.name : "";
+      this.fail(
+        name === "NotAllowedError" || name === "SecurityError"
+          ? "not-allowed"
+          : "audio-capture",
+        error instanceof Error ? error.message : String(error)
+      );
+      return;
+    }
+
+    // stop() may have been called while the permission prompt was open
+    if (!this.running || this.stopping) {
+      stream.getTracks().forEach((track) => track.stop());
+      return;
+    }
+    this.stream = stream;
+
+    const socket = new WebSocket(this.url);
+    socket.binaryType = "arraybuffer";
+    this.socket = socket;
+
+    socket.onopen = () => {
+      socket.send(
+        JSON.stringify({ config: { sample_rate: this.sampleRate } })
+      );
+      this.startAudio(stream);
+      this.onstart?.();
+      this.onaudiostart?.();
+    };
+
+    socket.onmessage = (message: MessageEvent) => {
+      if (typeof message.data === "string") {
+        this.handleMessage(message.data);
+      }
+    };
+
+    socket.onerror = () => {
+      this.fail("network", `Could not reach local speech engine at ${this.url}`);
+    };
+
+    socket.onclose = () => this.finish();
+  }
+
+  private handleMessage(data: string) {
+    let message: LocalEngineMessage;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      console.warn("[LocalEngineRecognizer] Ignoring malformed message:", data);
+      return;
+    }
+
+    if (message.partial) {
+      if (!this.hearingSpeech) {
+        this.hearingSpeech = true;
+        this.onsoundstart?.();
+        this.onspeechstart?.();
+      }
+      if (this.interimResults) {
+        this.onresult?.({
+          transcript: message.partial,
+          confidence: 0,
+          isFinal: false,
+        });
+      }
+      return;
+    }
+
+    if (message.text) {
+      const words = message.result ?? [];
+      const confidence =
+        words.length > 0
+          ? words.reduce((sum, word) => sum + (word.conf ?? 1), 0) /
+            words.length
+          : 1;
+
+      this.hearingSpeech = false;
+      this.onspeechend?.();
+      this.onresult?.({ transcript: message.text, confidence, isFinal: true });
+
+      if (!this.continuous) this.stop();
+    }
+  }
+
+  private startAudio(stream: MediaStream) {
+    // Capture at the device rate and downsample ourselves; Firefox refuses to
+    // connect a media stream to an AudioContext running at a different rate.
+    const audioContext = new AudioContext();
+    const source = audioContext.createMediaStreamSource(stream);
+    // ScriptProcessorNode is deprecated but needs no separate worklet module
+    const processor = audioContext.createScriptProcessor(4096, 1, 1);
+
+    processor.onaudioprocess = (event: AudioProcessingEvent) => {
+      if (this.socket?.readyState !== WebSocket.OPEN) return;
+      const pcm = this.downsample(
+        event.inputBuffer.getChannelData(0),
+        audioContext.sampleRate
+      );
+      this.socket.send(pcm.buffer);
+    };
+
+    source.connect(processor);
+    processor.connect(audioContext.destination);
+    this.audioContext = audioContext;
+    this.processor = processor;
+  }
+
+  private downsample(input: Float32Array, inputRate: number): Int16Array {
+    const ratio = inputRate / this.sampleRate;
+    const output = new Int16Array(Math.floor(input.length / ratio));
+
+    for (let i = 0; i < output.length; i++) {
+      const start = Math.floor(i * ratio);
+      const end = Math.min(Math.floor((i + 1) * ratio), input.length);
+      let sum = 0;
+      for (let j = start; j < end; j++) sum += input[j];
+      const sample = Math.max(-1, Math.min(1, sum / Math.max(end - start, 1)));
+      output[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+    }
+
+    return output;
+  }
+
+  private stopAudio() {
+    this.processor?.disconnect();
+    this.processor = null;
+    void this.audioContext?.close();
+    this.audioContext = null;
+    this.stream?.getTracks().forEach((track) => track.stop());
+    this.stream = null;
+  }
+
+  private fail(error: SpeechRecognitionErrorCode, message: string) {
+    this.onerror?.({ error, message });
+    this.finish();
+  }
+
+  private finish() {
+    if (!this.running) return;
+    this.running = false;
+    this.stopping = false;
+    this.hearingSpeech = false;
+
+    if (this.closeTimeoutId) {
+      clearTimeout(this.closeTimeoutId);
+      this.closeTimeoutId = undefined;
+    }
+    this.stopAudio();
+
+    const socket = this.socket;
+    this.socket = null;
+    if (socket) {
+      socket.onopen = null;
+      socket.onmessage = null;
+      socket.onerror = null;
+      socket.onclose = null;
+      if (socket.readyState !== WebSocket.CLOSED) socket.close();
+    }
+
+    this.onend?.();
+  }
+}
+
+// ------------------------------------------------------
+// Backend Selection
+// ------------------------------------------------------
+
+export function createSpeechRecognizer(
+  preferences: RecognizerPreferences = defaultRecognizerPreferences
+): SpeechRecognizer | null {
+  const useWebSpeech =
+    preferences.engine === "web-speech" ||
+    (preferences.engine === "auto" && WebSpeechRecognizer.isSupported());
+
+  if (useWebSpeech && WebSpeechRecognizer.isSupported()) {
+    return new WebSpeechRecognizer();
+  }
+
+  if (preferences.engine !== "web-speech" && LocalEngineRecognizer.isSupported()) {
+    return new LocalEngineRecognizer(preferences.localEngineUrl);
+  }
+
+  return null;
+}
@@ -0,0 +1,58 @@
+// src/lib/recurrence.test.ts
+// ------------------------------------------------------
+// Spoken phrase -> repeat rule, on a fixed clock:
+// Monday 19 October 2026, 2pm local time.
+// ------------------------------------------------------
+
+import { describe, expect, it } from "vitest";
+import { parseRecurrence } from "@/lib/recurrence";
+import { RecurrenceRule } from "@/types/task";
+
+const NOW = new Date(2026, 9, 19, 14, 0);
+
+describe("parseRecurrence", () => {
+  it.each<[string, RecurrenceRule, string]>([
+    ["every monday", { frequency: "weekly", interval: 1, byWeekday: [1] }, ""],
+    [
+      "feed two cats every two days",
+      { frequency: "daily", interval: 2 },
+      "feed two cats",
+    ],
+    ["standup daily", { frequency: "daily", interval: 1 }, "standup"],
+    [
+      "daily until friday",
+      { frequency: "daily", interval: 1, until: new Date(2026, 9, 23) },
+      "",
+    ],
+    // A bare month: "until" stops as it begins, "through" runs to its end
+    [
+      "daily until june",
+      { frequency: "daily", interval: 1, until: new Date(2027, 4, 31) },
+      "",
+    ],
+    [
+      "daily until the end of june",
+      { frequency: "daily", interval: 1, until: new Date(2027, 5, 30) },
+      "",
+    ],
+    [
+      "biweekly through december",
+      { frequency: "weekly", interval: 2, until: new Date(2026, 11, 31) },
+      "",
+    ],
+    [
+      "weekly for six times",
+      { frequency: "weekly", interval: 1, count: 6 },
+      "",
+    ],
+  ])("%s", (phrase, rule, rest) => {
+    expect(parseRecurrence(phrase, NOW)).toEqual({ rule, rest });
+  });
+
+  it.each(["weekly report", "write the weekly report"])(
+    "keeps %s as a title",
+    (phrase) => {
+      expect(parseRecurrence(phrase, NOW)).toBeNull();
+    }
+  );
+});
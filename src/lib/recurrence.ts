@@ -0,0 +1,518 @@
+// src/lib/recurrence.ts
+// ------------------------------------------------------
+// Recurring Tasks
+// Rules follow a subset of iCalendar RRULE so they can
+// be exported as is. Completing one occurrence spawns
+// the next with its own due date.
+// ------------------------------------------------------
+
+import { normalizeNumbers, ordinalSuffix, removeSpoken } from "@/lib/numbers";
+import { MONTHS, parseTemporal, WEEKDAYS } from "@/lib/temporal";
+import { generateTaskId, startOfDay, startOfWeek } from "@/lib/utils";
+import { RecurrenceRule, Task } from "@/types/task";
+
+const DAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const WORKWEEK = [1, 2, 3, 4, 5];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Same time of day as `time`, on the given calendar day
+function onDay(time: Date, year: number, month: number, day: number): Date {
+  return new Date(
+    year,
+    month,
+    day,
+    time.getHours(),
+    time.getMinutes(),
+    time.getSeconds(),
+    time.getMilliseconds()
+  );
+}
+
+function shiftDays(date: Date, days: number): Date {
+  return onDay(
+    date,
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate() + days
+  );
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+// The nth given weekday of a month (nth -1 = the last one), or null
+// when the month has no fifth one
+function nthWeekday(
+  time: Date,
+  year: number,
+  month: number,
+  weekday: number,
+  nth: number
+): Date | null {
+  const days = daysInMonth(year, month);
+  if (nth < 0) {
+    const last = new Date(year, month, days).getDay();
+    return onDay(time, year, month, days - ((last - weekday + 7) % 7));
+  }
+  const first = new Date(year, month, 1).getDay();
+  const day = 1 + ((weekday - first + 7) % 7) + (nth - 1) * 7;
+  return day <= days ? onDay(time, year, month, day) : null;
+}
+
+// The rule's day in a given month; months are counted from `time`
+// and may run past december
+function monthlyDate(rule: RecurrenceRule, time: Date, months: number) {
+  const target = new Date(time.getFullYear(), time.getMonth() + months, 1);
+  const year = target.getFullYear();
+  const month = target.getMonth();
+  if (rule.byNthWeekday) {
+    const { weekday, nth } = rule.byNthWeekday;
+    return nthWeekday(time, year, month, weekday, nth);
+  }
+  const days = daysInMonth(year, month);
+  const day = rule.byMonthDay ?? time.getDate();
+  // The 31st falls on the last day of shorter months
+  return onDay(time, year, month, day < 0 ? days : Math.min(day, days));
+}
+
+function followingDate(rule: RecurrenceRule, after: Date): Date | null {
+  const interval = Math.max(1, rule.interval);
+  switch (rule.frequency) {
+    case "daily":
+      return shiftDays(after, interval);
+    case "weekly": {
+      if (!rule.byWeekday?.length) return shiftDays(after, 7 * interval);
+      // Every N weeks counts whole weeks from the one `after` is in
+      const week = startOfWeek(after).getTime();
+      for (let days = 1; days <= 7 * interval + 7; days++) {
+        const candidate = shiftDays(after, days);
+        const weeks = Math.round(
+          (startOfWeek(candidate).getTime() - week) / (7 * DAY_MS)
+        );
+        if (
+          weeks % interval === 0 &&
+          rule.byWeekday.includes(candidate.getDay())
+        ) {
+          return candidate;
+        }
+      }
+      return null;
+    }
+    case "monthly":
+      for (let months = 0; months <= 12 * interval; months += interval) {
+        const candidate = monthlyDate(rule, after, months);
+        if (candidate && candidate > after) return candidate;
+      }
+      return null;
+    case "yearly": {
+      const year = after.getFullYear() + interval;
+      const month = after.getMonth();
+      const day = Math.min(after.getDate(), daysInMonth(year, month));
+      return onDay(after, year, month, day);
+    }
+  }
+}
+
+// The first occurrence after the given one, or null once the rule's
+// end date has passed. Occurrence counts are up to the caller.
+export function nextOccurrence(rule: RecurrenceRule, after: Date): Date | null {
+  const next = followingDate(rule, after);
+  if (!next || (rule.until && startOfDay(next) > rule.until)) return null;
+  return next;
+}
+
+// When a new series starts: today, unless the rule pins the day
+// ("every monday" made on a wednesday starts next monday)
+export function firstOccurrence(rule: RecurrenceRule, from: Date): Date {
+  const pinned =
+    rule.byWeekday?.length ||
+    rule.byNthWeekday ||
+    rule.byMonthDay !== undefined;
+  if (!pinned) return from;
+  return followingDate({ ...rule, interval: 1 }, shiftDays(from, -1)) ?? from;
+}
+
+// "Every month" repeats on the day it started rather than drifting
+// to the 28th after february
+function pinMonthDay(rule: RecurrenceRule, start: Date): RecurrenceRule {
+  if (
+    rule.frequency !== "monthly" ||
+    rule.byNthWeekday ||
+    rule.byMonthDay !== undefined
+  ) {
+    return rule;
+  }
+  return { ...rule, byMonthDay: start.getDate() };
+}
+
+// The task for the occurrence after this one, or null when the series
+// is over. Occurrences missed while the task sat overdue are skipped,
+// so a daily task finished three days late is next due today.
+export function spawnNextOccurrence(
+  task: Task,
+  now: Date = new Date()
+): Task | null {
+  if (!task.recurrence) return null;
+
+  // Without a due date the series runs from the day it was completed
+  const anchor = task.dueDate ?? startOfDay(task.completedAt ?? now);
+  const rule = pinMonthDay(task.recurrence, anchor);
+  const today = startOfDay(now);
+
+  let occurrence = task.occurrence ?? 1;
+  let dueDate: Date | null = anchor;
+  do {
+    dueDate = nextOccurrence(rule, dueDate);
+    occurrence++;
+    if (!dueDate || (rule.count && occurrence > rule.count)) return null;
+  } while (dueDate < today);
+
+  return {
+    ...task,
+    id: generateTaskId(),
+    completed: false,
+    status: "todo",
+    completedAt: undefined,
+    createdAt: now,
+    updatedAt: now,
+    dueDate,
+    recurrence: rule,
+    subtasks: task.subtasks?.map((subtask) => ({
+      ...subtask,
+      completed: false,
+    })),
+    // Blockers, tracked time, the voice memo (stored under the old
+    // id) and the history were for this occurrence
+    blockedBy: undefined,
+    timeEntries: undefined,
+    voiceMemo: undefined,
+    activity: undefined,
+    seriesId: task.seriesId ?? task.id,
+    occurrence,
+  };
+}
+
+// ------------------------------------------------------
+// iCalendar
+// ------------------------------------------------------
+
+function rruleDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}${month}${day}`;
+}
+
+// "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE"
+export function toRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byWeekday?.length) {
+    parts.push(
+      `BYDAY=${rule.byWeekday.map((day) => DAY_CODES[day]).join(",")}`
+    );
+  }
+  if (rule.byNthWeekday) {
+    const { weekday, nth } = rule.byNthWeekday;
+    parts.push(`BYDAY=${nth}${DAY_CODES[weekday]}`);
+  }
+  if (rule.byMonthDay !== undefined) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  }
+  if (rule.until) parts.push(`UNTIL=${rruleDate(rule.until)}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  return parts.join(";");
+}
+
+// Reads what toRRule writes; null for rules outside that subset
+export function parseRRule(rrule: string): RecurrenceRule | null {
+  const fields = new Map(
+    rrule
+      .replace(/^RRULE:/i, "")
+      .split(";")
+      .map((part) => part.split("=") as [string, string])
+      .map(([key, value]) => [key.toUpperCase(), (value ?? "").toUpperCase()])
+  );
+
+  const frequency = fields.get("FREQ")?.toLowerCase();
+  if (
+    frequency !== "daily" &&
+    frequency !== "weekly" &&
+    frequency !== "monthly" &&
+    frequency !== "yearly"
+  ) {
+    return null;
+  }
+  const rule: RecurrenceRule = {
+    frequency,
+    interval: parseInt(fields.get("INTERVAL") ?? "1") || 1,
+  };
+
+  const byDay = fields.get("BYDAY");
+  if (byDay) {
+    const days = byDay.split(",").map((day) => day.match(/^([+-]?\d)?(\w\w)$/));
+    if (days.some((day) => !day || !DAY_CODES.includes(day[2]))) return null;
+    const [first] = days as RegExpMatchArray[];
+    if (first[1]) {
+      rule.byNthWeekday = {
+        weekday: DAY_CODES.indexOf(first[2]),
+        nth: parseInt(first[1]),
+      };
+    } else {
+      rule.byWeekday = (days as RegExpMatchArray[]).map((day) =>
+        DAY_CODES.indexOf(day[2])
+      );
+    }
+  }
+
+  const byMonthDay = fields.get("BYMONTHDAY");
+  if (byMonthDay) rule.byMonthDay = parseInt(byMonthDay);
+
+  const until = fields.get("UNTIL")?.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (until) {
+    rule.until = new Date(
+      parseInt(until[1]),
+      parseInt(until[2]) - 1,
+      parseInt(until[3])
+    );
+  }
+  const count = fields.get("COUNT");
+  if (count) rule.count = parseInt(count);
+
+  return rule;
+}
+
+// ------------------------------------------------------
+// Spoken Rules
+// ------------------------------------------------------
+
+const capitalize = (word: string) => word[0].toUpperCase() + word.slice(1);
+const dayName = (weekday: number) => capitalize(WEEKDAYS[weekday]);
+
+function joinWords(items: string[]): string {
+  if (items.length <= 1) return items.join("");
+  return `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+}
+
+const units: Record<RecurrenceRule["frequency"], string> = {
+  daily: "day",
+  weekly: "week",
+  monthly: "month",
+  yearly: "year",
+};
+
+// "every day", "every other week", "every 3 months"
+function every(rule: RecurrenceRule): string {
+  const unit = units[rule.frequency];
+  if (rule.interval <= 1) return `every ${unit}`;
+  if (rule.interval === 2) return `every other ${unit}`;
+  return `every ${rule.interval} ${unit}s`;
+}
+
+// "every Monday and Wednesday", "every weekday", "every month on the
+// 15th", "every other week until December 1"
+export function describeRecurrence(rule: RecurrenceRule): string {
+  let text = every(rule);
+  const days = [...(rule.byWeekday ?? [])].sort((a, b) => a - b);
+
+  if (rule.frequency === "weekly" && days.length > 0) {
+    const workweek = days.join() === WORKWEEK.join();
+    if (rule.interval <= 1) {
+      text = workweek
+        ? "every weekday"
+        : `every ${joinWords(days.map(dayName))}`;
+    } else if (rule.interval === 2 && !workweek) {
+      text = `every other ${joinWords(days.map(dayName))}`;
+    } else {
+      text += ` on ${workweek ? "weekdays" : joinWords(days.map(dayName))}`;
+    }
+  } else if (rule.frequency === "monthly" && rule.byNthWeekday) {
+    const { weekday, nth } = rule.byNthWeekday;
+    const position = nth < 0 ? "last" : ordinalSuffix(nth);
+    text += ` on the ${position} ${dayName(weekday)}`;
+  } else if (rule.frequency === "monthly" && rule.byMonthDay !== undefined) {
+    text +=
+      rule.byMonthDay < 0
+        ? " on the last day"
+        : ` on the ${ordinalSuffix(rule.byMonthDay)}`;
+  }
+
+  if (rule.until) {
+    text += ` until ${rule.until.toLocaleDateString("en-US", {
+      month: "long",
+      day: "numeric",
+    })}`;
+  }
+  if (rule.count) text += `, ${rule.count} times`;
+  return text;
+}
+
+export interface RecurrenceMatch {
+  rule: RecurrenceRule;
+  // The text with the repeat phrase taken out
+  rest: string;
+}
+
+const WEEKDAY = `(?:${WEEKDAYS.join("|")})`;
+const DAY_LIST = String.raw`${WEEKDAY}s?(?:(?:,| and|, and) ${WEEKDAY}s?)*`;
+const NTH = String.raw`(1st|2nd|3rd|4th|5th|last)`;
+const MONTH_DAY = String.raw`(\d{1,2})(?:st|nd|rd|th)`;
+const EACH_MONTH = String.raw`(?:of |in )?(?:every|each|the|a) month`;
+
+function weekdaysIn(list: string): number[] {
+  return WEEKDAYS.map((day, index) => (list.includes(day) ? index : -1)).filter(
+    (index) => index >= 0
+  );
+}
+
+const intervalOf = (word: string) =>
+  word === "other" ? 2 : word ? parseInt(word) : 1;
+
+// Checked in order; the first match wins
+const rules: [RegExp, (match: RegExpMatchArray) => RecurrenceRule | null][] = [
+  // "the first monday of every month", "every last friday"
+  [
+    new RegExp(
+      String.raw`\b(?:on )?(?:the |every )${NTH} (${WEEKDAY})s? ${EACH_MONTH}\b|\bevery ${NTH} (${WEEKDAY})\b`
+    ),
+    (match) => ({
+      frequency: "monthly",
+      interval: 1,
+      byNthWeekday: {
+        weekday: WEEKDAYS.indexOf(match[2] || match[4]),
+        nth:
+          (match[1] || match[3]) === "last"
+            ? -1
+            : parseInt(match[1] || match[3]),
+      },
+    }),
+  ],
+  // "the last day of every month"
+  [
+    new RegExp(String.raw`\b(?:on )?the last day ${EACH_MONTH}\b`),
+    () => ({ frequency: "monthly", interval: 1, byMonthDay: -1 }),
+  ],
+  // "every month on the 15th", "monthly on the 1st", "on the 15th of
+  // every month", "every 15th"
+  [
+    new RegExp(
+      String.raw`\b(?:every (other |\d+ )?months?|monthly) on the ${MONTH_DAY}\b|\b(?:on )?the ${MONTH_DAY} ${EACH_MONTH}\b|\bevery ${MONTH_DAY}\b`
+    ),
+    (match) => {
+      const day = parseInt(match[2] || match[3] || match[4]);
+      if (day < 1 || day > 31) return null;
+      return {
+        frequency: "monthly",
+        interval: intervalOf((match[1] || "").trim()),
+        byMonthDay: day,
+      };
+    },
+  ],
+  // "every weekday", "on weekdays", "every workday"
+  [
+    /\b(?:every|each|on) (?:weekday|work ?day|working day|business day)s?\b|\bweekdays\b/,
+    () => ({ frequency: "weekly", interval: 1, byWeekday: WORKWEEK }),
+  ],
+  // "every monday and wednesday", "every other friday", "on tuesdays",
+  // "every 2 weeks on monday"
+  [
+    new RegExp(
+      String.raw`\bevery (other |\d+ )?(${DAY_LIST})\b|\bevery (other |\d+ )?weeks? on (${DAY_LIST})\b|\b(?:on )?(${WEEKDAY}s(?:(?:,| and|, and) ${WEEKDAY}s)*)\b`
+    ),
+    (match) => ({
+      frequency: "weekly",
+      interval: intervalOf((match[1] || match[3] || "").trim()),
+      byWeekday: weekdaysIn(match[2] || match[4] || match[5]),
+    }),
+  ],
+  // "every day", "every other week", "every 3 months"
+  [
+    /\bevery (other |\d+ )?(day|week|month|year)s?\b/,
+    (match) => ({
+      frequency: (
+        {
+          day: "daily",
+          week: "weekly",
+          month: "monthly",
+          year: "yearly",
+        } as const
+      )[match[2] as "day" | "week" | "month" | "year"],
+      interval: intervalOf((match[1] || "").trim()),
+    }),
+  ],
+  // Only at the end, or before the series' end ("daily until june",
+  // "weekly for 6 times"), so "weekly report" stays a title
+  [
+    /\b(daily|weekly|monthly|yearly|annually|fortnightly|biweekly)(?=\s*(?:,|$|(?:until|till|through|ending)\b|(?:for )?\d+ (?:times|occurrences)\b))/,
+    (match) =>
+      match[1] === "fortnightly" || match[1] === "biweekly"
+        ? { frequency: "weekly", interval: 2 }
+        : {
+            frequency:
+              match[1] === "annually"
+                ? "yearly"
+                : (match[1] as RecurrenceRule["frequency"]),
+            interval: 1,
+          },
+  ],
+];
+
+// "until march 1st", "until the end of the year"
+const UNTIL = /\b(until|till|through|ending) ([^,]+)/;
+// "until june", "through the end of december"
+const UNTIL_MONTH = new RegExp(
+  String.raw`^(?:the end of )?(${Object.keys(MONTHS).join("|")})\b`
+);
+// "10 times", "for 6 occurrences"
+const COUNT = /\b(?:for )?(\d+) (?:times|occurrences)\b/;
+
+// The last day of the series for a bare month: "through december" and
+// "until the end of june" run to the end of it, "until june" stops once
+// june begins. Always the coming one, so "until june" said in october
+// means next june
+function monthEnd(month: number, through: boolean, now: Date): Date {
+  const passed =
+    month < now.getMonth() || (month === now.getMonth() && !through);
+  const year = now.getFullYear() + (passed ? 1 : 0);
+  return new Date(year, through ? month + 1 : month, 0);
+}
+
+// Finds a repeat phrase ("every monday", "every 2 weeks", "the last
+// friday of every month", "daily until june") and returns the rule and
+// the text without it, as it was said. Expects lowercase text.
+export function parseRecurrence(
+  text: string,
+  now: Date = new Date()
+): RecurrenceMatch | null {
+  let rest = text;
+  let rule: RecurrenceRule | null = null;
+  for (const [pattern, resolve] of rules) {
+    const match = normalizeNumbers(rest).match(pattern);
+    rule = match && resolve(match);
+    if (match && rule) {
+      rest = removeSpoken(rest, match[0]);
+      break;
+    }
+  }
+  if (!rule) return null;
+
+  const count = normalizeNumbers(rest).match(COUNT);
+  if (count) {
+    rule.count = parseInt(count[1]);
+    rest = removeSpoken(rest, count[0]);
+  }
+  const until = rest.match(UNTIL);
+  const end = until && parseTemporal(until[2], now);
+  const month = until && !end ? until[2].match(UNTIL_MONTH) : null;
+  if (until && end && end.kind !== "beforeDue") {
+    rule.until = startOfDay(end.date);
+    rest = rest.replace(until[0], ` ${end.rest} `);
+  } else if (until && month) {
+    const through =
+      /^(?:through|ending)$/.test(until[1]) || month[0] !== month[1];
+    rule.until = monthEnd(MONTHS[month[1]], through, now);
+    rest = rest.replace(`${until[1]} ${month[0]}`, " ");
+  }
+
+  return { rule, rest: rest.replace(/\s+/g, " ").trim() };
+}
@@ -1,5 +1,8 @@
 // Reminder System for Tasks
 
+import { deadlineOf } from "@/lib/deadlines";
+import { TemporalExpression, parseTemporal } from "@/lib/temporal";
+import { reviveTask, startOfDay } from "@/lib/utils";
 import { Task } from "@/types/task";
 
 export interface Reminder {
@@ -8,9 +11,18 @@ export interface Reminder {
   reminderTime: Date;
   message: string;
   isActive: boolean;
+  // Held back, unscheduled, while the task is in the trash
+  paused?: boolean;
   type: "notification" | "voice" | "both";
 }
 
+// A reminder asked for before its time is known, e.g. while a task is
+// being created by voice; resolved against the task once it exists
+export interface ReminderRequest {
+  when: TemporalExpression;
+  type?: Reminder["type"];
+}
+
 export class ReminderManager {
   private reminders: Map<string, Reminder> = new Map();
   private timeouts: Map<string, NodeJS.Timeout> = new Map();
@@ -75,6 +87,58 @@ export class ReminderManager {
     this.saveReminders();
   }
 
+  // Gives another task the same reminders moved by `shiftMs`, e.g. the
+  // next occurrence of a recurring task. Fired reminders are copied
+  // too; any that would land in the past are skipped.
+  public copyReminders(
+    fromTaskId: string,
+    toTaskId: string,
+    shiftMs: number
+  ): number {
+    const now = Date.now();
+    let copied = 0;
+    this.getRemindersForTask(fromTaskId).forEach((reminder) => {
+      const time = new Date(reminder.reminderTime.getTime() + shiftMs);
+      if (time.getTime() <= now) return;
+      this.addReminder(toTaskId, time, reminder.type);
+      copied++;
+    });
+    return copied;
+  }
+
+  public removeRemindersForTask(taskId: string): void {
+    this.getRemindersForTask(taskId).forEach((reminder) =>
+      this.removeReminder(reminder.id)
+    );
+  }
+
+  // Unschedules the task's pending reminders without losing them
+  public pauseRemindersForTask(taskId: string): number {
+    const pending = this.getRemindersForTask(taskId).filter(
+      (r) => r.isActive && !r.paused
+    );
+    pending.forEach((reminder) => {
+      clearTimeout(this.timeouts.get(reminder.id));
+      this.timeouts.delete(reminder.id);
+      this.reminders.set(reminder.id, { ...reminder, paused: true });
+    });
+    this.saveReminders();
+    return pending.length;
+  }
+
+  // Schedules paused reminders again; any whose time has passed go
+  // off straight away
+  public resumeRemindersForTask(taskId: string): number {
+    const paused = this.getRemindersForTask(taskId).filter((r) => r.paused);
+    paused.forEach((reminder) => {
+      const resumed = { ...reminder, paused: false };
+      this.reminders.set(reminder.id, resumed);
+      if (resumed.isActive) this.scheduleReminder(resumed);
+    });
+    this.saveReminders();
+    return paused.length;
+  }
+
   public getRemindersForTask(taskId: string): Reminder[] {
     return Array.from(this.reminders.values()).filter(
       (r) => r.taskId === taskId
@@ -82,7 +146,9 @@ export class ReminderManager {
   }
 
   public getAllActiveReminders(): Reminder[] {
-    return Array.from(this.reminders.values()).filter((r) => r.isActive);
+    return Array.from(this.reminders.values()).filter(
+      (r) => r.isActive && !r.paused
+    );
   }
 
   private scheduleReminder(reminder: Reminder): void {
@@ -133,13 +199,8 @@ export class ReminderManager {
     try {
       const stored = localStorage.getItem("voice-task-manager-tasks");
       if (stored) {
-        const parsed = JSON.parse(stored);
-        return parsed.map((task: any) => ({
-          ...task,
-          createdAt: new Date(task.createdAt),
-          updatedAt: new Date(task.updatedAt),
-          dueDate: task.dueDate ? new Date(task.dueDate) : undefined,
-        }));
+        const parsed: Task[] = JSON.parse(stored);
+        return parsed.map(reviveTask);
       }
     } catch (error) {
       console.error("Error loading tasks for reminders:", error);
@@ -165,7 +226,7 @@ export class ReminderManager {
           reminder.reminderTime = new Date(reminder.reminderTime);
           this.reminders.set(reminder.id, reminder);
 
-          if (reminder.isActive) {
+          if (reminder.isActive && !reminder.paused) {
             this.scheduleReminder(reminder);
           }
         });
@@ -200,12 +261,16 @@ export class ReminderManager {
         suggestions.push(oneDayBefore);
       }
 
-      // 1 hour before due date
-      const oneHourBefore = new Date(dueDate);
-      oneHourBefore.setHours(oneHourBefore.getHours() - 1);
+      // 1 hour before a due time, or the morning of an all-day deadline
+      const sameDay = new Date(dueDate);
+      if (task.dueTime) {
+        sameDay.setTime(deadlineOf(task)!.getTime() - 60 * 60 * 1000);
+      } else {
+        sameDay.setHours(9, 0, 0, 0);
+      }
 
-      if (oneHourBefore > now) {
-        suggestions.push(oneHourBefore);
+      if (sameDay > now) {
+        suggestions.push(sameDay);
       }
     }
 
@@ -269,52 +334,66 @@ export class NotificationManager {
   }
 }
 
-// Parse reminder time from speech
-export function parseReminderFromSpeech(speech: string): Date | null {
-  const text = speech.toLowerCase();
-  const now = new Date();
-
-  // "in 5 minutes"
-  const minutesMatch = text.match(/in (\d+) minutes?/);
-  if (minutesMatch) {
-    const minutes = parseInt(minutesMatch[1]);
-    const reminderTime = new Date(now);
-    reminderTime.setMinutes(reminderTime.getMinutes() + minutes);
-    return reminderTime;
-  }
-
-  // "in 1 hour"
-  const hoursMatch = text.match(/in (\d+) hours?/);
-  if (hoursMatch) {
-    const hours = parseInt(hoursMatch[1]);
-    const reminderTime = new Date(now);
-    reminderTime.setHours(reminderTime.getHours() + hours);
-    return reminderTime;
-  }
-
-  // "tomorrow at 9"
-  if (text.includes("tomorrow")) {
-    const timeMatch = text.match(/at (\d+)/);
-    const reminderTime = new Date(now);
-    reminderTime.setDate(reminderTime.getDate() + 1);
-
-    if (timeMatch) {
-      const hour = parseInt(timeMatch[1]);
-      reminderTime.setHours(hour, 0, 0, 0);
-    } else {
-      reminderTime.setHours(9, 0, 0, 0); // Default to 9 AM
+// Hour a reminder for a whole day ("remind me friday") fires at
+const MORNING_HOUR = 9;
+
+// When a reminder should fire. Offsets from the deadline need the
+// task's due date; an all-day deadline lasts until the end of its day.
+export function reminderTimeFor(
+  when: TemporalExpression,
+  due: Pick<Task, "dueDate" | "dueTime"> = {}
+): Date | null {
+  switch (when.kind) {
+    case "instant":
+      return when.date;
+
+    case "date": {
+      const date = new Date(when.date);
+      date.setHours(MORNING_HOUR, 0, 0, 0);
+      return date;
     }
 
-    return reminderTime;
+    case "beforeDue": {
+      const deadline = deadlineOf(due);
+      if (!due.dueDate || !deadline) return null;
+      const wholeDays = when.minutes > 0 && when.minutes % (24 * 60) === 0;
+      if (wholeDays && !due.dueTime) {
+        const date = startOfDay(due.dueDate, -when.minutes / (24 * 60));
+        date.setHours(MORNING_HOUR);
+        return date;
+      }
+      return new Date(deadline.getTime() - when.minutes * 60 * 1000);
+    }
   }
+}
 
-  // "next week"
-  if (text.includes("next week")) {
-    const reminderTime = new Date(now);
-    reminderTime.setDate(reminderTime.getDate() + 7);
-    reminderTime.setHours(9, 0, 0, 0);
-    return reminderTime;
-  }
+// Parse reminder time from speech
+export function parseReminderFromSpeech(
+  speech: string,
+  due: Pick<Task, "dueDate" | "dueTime"> = {},
+  now: Date = new Date()
+): Date | null {
+  const when = parseTemporal(speech, now);
+  return when ? reminderTimeFor(when, due) : null;
+}
 
-  return null;
+// "today at 3:45 PM", "tomorrow at 9:00 AM",
+// "on Friday, October 24 at 6:00 PM"
+export function formatReminderTime(time: Date, now: Date = new Date()): string {
+  const clock = time.toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+  });
+  const days = Math.round(
+    (startOfDay(time).getTime() - startOfDay(now).getTime()) / 86400000
+  );
+
+  if (days === 0) return `today at ${clock}`;
+  if (days === 1) return `tomorrow at ${clock}`;
+  const day = time.toLocaleDateString("en-US", {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+  });
+  return `on ${day} at ${clock}`;
 }
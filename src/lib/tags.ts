@@ -0,0 +1,147 @@
+// src/lib/tags.ts
+// ------------------------------------------------------
+// Tags
+// Tasks carry any number of tags. Names are normalized
+// so "Work", "work " and "work" are one tag, and the
+// registry remembers each tag's color.
+// ------------------------------------------------------
+
+import { Task } from "@/types/task";
+
+export const TAG_COLORS = [
+  "blue",
+  "green",
+  "purple",
+  "pink",
+  "orange",
+  "teal",
+  "red",
+  "yellow",
+] as const;
+
+export type TagColor = (typeof TAG_COLORS)[number];
+
+export interface Tag {
+  name: string;
+  color: TagColor;
+}
+
+// Chip styles per color, spelled out so Tailwind keeps them
+export const tagColorClasses: Record<TagColor, string> = {
+  blue: "bg-blue-500/20 text-blue-300 border-blue-400/40",
+  green: "bg-green-500/20 text-green-300 border-green-400/40",
+  purple: "bg-purple-500/20 text-purple-300 border-purple-400/40",
+  pink: "bg-pink-500/20 text-pink-300 border-pink-400/40",
+  orange: "bg-orange-500/20 text-orange-300 border-orange-400/40",
+  teal: "bg-teal-500/20 text-teal-300 border-teal-400/40",
+  red: "bg-red-500/20 text-red-300 border-red-400/40",
+  yellow: "bg-yellow-500/20 text-yellow-300 border-yellow-400/40",
+};
+
+// " Client  Work" -> "client work", "#urgent" -> "urgent"
+export function normalizeTag(name: string): string {
+  return name.trim().replace(/^#+/, "").replace(/\s+/g, " ").toLowerCase();
+}
+
+// Normalized and without duplicates, in first-seen order
+export function mergeTags(...lists: (string[] | undefined)[]): string[] {
+  const tags = lists.flatMap((list) => list ?? []).map(normalizeTag);
+  return Array.from(new Set(tags.filter(Boolean)));
+}
+
+// "urgent, client and home office" -> ["urgent", "client", "home office"]
+export function parseTagList(text: string): string[] {
+  return mergeTags(text.split(/\s*(?:,|;|&|\band\b|\bplus\b)\s*/));
+}
+
+// The tag moved to another name on every task, or dropped when `to`
+// is null. Renaming onto an existing tag merges the two.
+export function retagTasks(
+  tasks: Task[],
+  from: string,
+  to: string | null
+): Task[] {
+  const source = normalizeTag(from);
+  return tasks.map((task) => {
+    if (!task.tags?.includes(source)) return task;
+    const tags = task.tags.map((tag) => (tag === source ? (to ?? "") : tag));
+    return { ...task, tags: mergeTags(tags), updatedAt: new Date() };
+  });
+}
+
+export class TagRegistry {
+  private tags: Map<string, Tag> = new Map();
+
+  constructor() {
+    this.loadTags();
+  }
+
+  public getTags(): Tag[] {
+    return Array.from(this.tags.values()).sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+  }
+
+  public getColor(name: string): TagColor {
+    return this.tags.get(normalizeTag(name))?.color ?? "blue";
+  }
+
+  // Registers tags seen on tasks, giving new ones the next color round
+  // the palette. Returns whether anything was added.
+  public ensureTags(names: string[]): boolean {
+    let added = false;
+    mergeTags(names).forEach((name) => {
+      if (this.tags.has(name)) return;
+      const color = TAG_COLORS[this.tags.size % TAG_COLORS.length];
+      this.tags.set(name, { name, color });
+      added = true;
+    });
+    if (added) this.saveTags();
+    return added;
+  }
+
+  public setColor(name: string, color: TagColor): void {
+    const tag = this.tags.get(normalizeTag(name));
+    if (!tag) return;
+    this.tags.set(tag.name, { ...tag, color });
+    this.saveTags();
+  }
+
+  // Renaming onto an existing tag merges them; the target keeps its
+  // color. Pair with retagTasks to update the tasks themselves.
+  public renameTag(from: string, to: string): void {
+    const source = this.tags.get(normalizeTag(from));
+    const target = normalizeTag(to);
+    if (!source || !target || source.name === target) return;
+
+    this.tags.delete(source.name);
+    if (!this.tags.has(target)) {
+      this.tags.set(target, { name: target, color: source.color });
+    }
+    this.saveTags();
+  }
+
+  public removeTag(name: string): void {
+    this.tags.delete(normalizeTag(name));
+    this.saveTags();
+  }
+
+  private saveTags(): void {
+    localStorage.setItem(
+      "voice-task-tags",
+      JSON.stringify(Array.from(this.tags.values()))
+    );
+  }
+
+  private loadTags(): void {
+    try {
+      const stored = localStorage.getItem("voice-task-tags");
+      if (stored) {
+        const tags: Tag[] = JSON.parse(stored);
+        tags.forEach((tag) => this.tags.set(tag.name, tag));
+      }
+    } catch (error) {
+      console.error("Error loading tags:", error);
+    }
+  }
+}
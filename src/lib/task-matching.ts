@@ -0,0 +1,188 @@
+// src/lib/task-matching.ts
+// ------------------------------------------------------
+// Spoken Task References
+// Ranks tasks against what the user called them and
+// decides when to ask "did you mean A or B?". Anything
+// with a title works, checklist steps included.
+// ------------------------------------------------------
+
+import { normalizeText, phoneticKey, similarity } from "@/lib/fuzzy";
+import { normalizeNumbers } from "@/lib/numbers";
+import { joinSpoken } from "@/lib/voice";
+import { Task } from "@/types/task";
+
+type Titled = Pick<Task, "title">;
+
+export interface TaskMatch<T extends Titled = Task> {
+  task: T;
+  score: number;
+}
+
+export type TaskResolution<T extends Titled = Task> =
+  | { kind: "found"; task: T }
+  | { kind: "ambiguous"; candidates: T[] }
+  | { kind: "none" };
+
+// Below this a task is not considered a match at all
+const MIN_SCORE = 0.5;
+// Candidates this close to the best one make the reference ambiguous
+const AMBIGUITY_MARGIN = 0.1;
+
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "the",
+  "my",
+  "to",
+  "for",
+  "of",
+  "on",
+  "in",
+  "at",
+  "and",
+  "or",
+  "with",
+  "about",
+  "task",
+  "it",
+  "that",
+  "this",
+  "one",
+]);
+
+// Crude plural folding so "groceries" matches "grocery"
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss")) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+// Numbers compare as digits: "two" in a title matches a spoken "2"
+function normalizeReference(text: string): string {
+  return normalizeNumbers(normalizeText(text));
+}
+
+function contentWords(text: string): string[] {
+  return normalizeReference(text)
+    .split(" ")
+    .filter((word) => word && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+// How well one spoken word matches one title word, 0-1
+function wordSimilarity(spoken: string, title: string): number {
+  if (spoken === title) return 1;
+  // Numbers have to match exactly: "chapter 2" is not "chapter 3"
+  if (/\d/.test(spoken) || /\d/.test(title)) return 0;
+  const spelling = similarity(spoken, title);
+  // Sound-alikes ("reed"/"read"); short words share keys too easily
+  const key = phoneticKey(spoken);
+  const sound =
+    spoken.length >= 4 && key.length >= 2 && key === phoneticKey(title)
+      ? 0.85
+      : 0;
+  return Math.max(spelling, sound);
+}
+
+export function scoreTask(reference: string, task: Titled): number {
+  const spoken = contentWords(reference);
+  const title = contentWords(task.title);
+  if (spoken.length === 0 || title.length === 0) return 0;
+
+  // Saying the title word for word
+  const normalizedTitle = normalizeReference(task.title);
+  const normalizedReference = normalizeReference(reference);
+  if (normalizedTitle === normalizedReference) return 1;
+
+  const best = (word: string, pool: string[]) =>
+    Math.max(...pool.map((candidate) => wordSimilarity(word, candidate)));
+  const weak = (score: number) => (score >= 0.75 ? score : 0);
+
+  // Precision: every spoken word should be in the title.
+  // Recall: saying more of the title makes the match stronger.
+  const precision =
+    spoken.reduce((sum, word) => sum + weak(best(word, title)), 0) /
+    spoken.length;
+  const recall =
+    title.reduce((sum, word) => sum + weak(best(word, spoken)), 0) /
+    title.length;
+
+  const numbers = (text: string) => text.match(/\d+/g)?.join(" ") ?? "";
+  const spelling =
+    numbers(normalizedReference) === numbers(normalizedTitle)
+      ? similarity(normalizedReference, normalizedTitle)
+      : 0;
+
+  return Math.max(0.7 * precision + 0.3 * recall, spelling);
+}
+
+export function rankTasks<T extends Titled>(
+  reference: string,
+  tasks: T[]
+): TaskMatch<T>[] {
+  return tasks
+    .map((task) => ({ task, score: scoreTask(reference, task) }))
+    .filter((match) => match.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score);
+}
+
+export function resolveTask<T extends Titled>(
+  reference: string,
+  tasks: T[]
+): TaskResolution<T> {
+  const [top, ...rest] = rankTasks(reference, tasks);
+  if (!top) return { kind: "none" };
+
+  const close = rest.filter(
+    (match) => top.score - match.score < AMBIGUITY_MARGIN
+  );
+  if (close.length === 0) return { kind: "found", task: top.task };
+
+  return {
+    kind: "ambiguous",
+    candidates: [top, ...close].slice(0, 3).map((match) => match.task),
+  };
+}
+
+const ordinals: Record<string, number> = {
+  "1st": 0,
+  "1": 0,
+  "2nd": 1,
+  "2": 1,
+  "3rd": 2,
+  "3": 2,
+};
+
+// Answer to "did you mean A or B?": "the second one", "number one",
+// "the last one", or simply the task's name again.
+export function resolveChoice(
+  answer: string,
+  candidates: Task[]
+): Task | null {
+  const text = normalizeReference(answer);
+
+  if (/\b(?:last|latter)\b/.test(text)) {
+    return candidates[candidates.length - 1] ?? null;
+  }
+  if (/\bformer\b/.test(text)) return candidates[0] ?? null;
+
+  const ordinal = text.match(
+    /\b(?:the\s+)?(?:number\s+)?(1st|2nd|3rd|1|2|3)\b(?:\s+one)?/
+  );
+  if (ordinal && text.split(" ").length <= 4) {
+    return candidates[ordinals[ordinal[1]]] ?? null;
+  }
+
+  const resolution = resolveTask(text, candidates);
+  return resolution.kind === "found" ? resolution.task : null;
+}
+
+// "A", "A or B", "A, B or C"
+export function joinAlternatives(titles: string[]): string {
+  return joinSpoken(
+    titles.map((title) => `"${title}"`),
+    "or"
+  );
+}
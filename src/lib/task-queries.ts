@@ -0,0 +1,248 @@
+// src/lib/task-queries.ts
+// ------------------------------------------------------
+// Spoken Task Queries
+// Answers "what's due today?"-style questions in natural
+// phrasing, filtering through filterTasks.
+// ------------------------------------------------------
+
+import { openBlockers, readyTasks } from "@/lib/dependencies";
+import {
+  describeDuration,
+  isTimerRunning,
+  trackedMs,
+} from "@/lib/time-tracking";
+import {
+  filterTasks,
+  startOfDay,
+  startOfWeek,
+  subtaskProgress,
+} from "@/lib/utils";
+import { joinSpoken } from "@/lib/voice";
+import { Task, TaskFilters, TaskListView, TaskQuery } from "@/types/task";
+
+// How many titles are read out before summarising the rest
+const MAX_READ_OUT = 5;
+
+export function queryToFilters(query: TaskQuery, now: Date): TaskFilters {
+  const filters: TaskFilters = {
+    completed: query.status ? query.status === "completed" : undefined,
+    status: query.workflow,
+    priority: query.priority,
+    category: query.category,
+  };
+
+  // Weeks run monday to sunday, so the range ends on the next monday
+  const weekStart = startOfWeek(now);
+  const nextWeek = startOfDay(weekStart, 7);
+
+  switch (query.due) {
+    case "today":
+      filters.dueFrom = startOfDay(now);
+      filters.dueBefore = startOfDay(now, 1);
+      break;
+    case "tomorrow":
+      filters.dueFrom = startOfDay(now, 1);
+      filters.dueBefore = startOfDay(now, 2);
+      break;
+    case "thisWeek":
+      filters.dueFrom = startOfDay(now);
+      filters.dueBefore = nextWeek;
+      break;
+    case "overdue":
+      // Includes deadlines that passed earlier today
+      filters.overdueAt = now;
+      break;
+  }
+
+  switch (query.completed) {
+    case "today":
+      filters.completedFrom = startOfDay(now);
+      break;
+    case "yesterday":
+      filters.completedFrom = startOfDay(now, -1);
+      filters.completedBefore = startOfDay(now);
+      break;
+    case "thisWeek":
+      filters.completedFrom = weekStart;
+      break;
+  }
+
+  return filters;
+}
+
+const periodNames = {
+  today: "today",
+  tomorrow: "tomorrow",
+  yesterday: "yesterday",
+  thisWeek: "this week",
+};
+
+export function answerTaskQuery(
+  query: TaskQuery,
+  tasks: Task[],
+  now: Date = new Date()
+): string {
+  const filtered = filterTasks(tasks, queryToFilters(query, now));
+  // Blockers can be outside the filter, so readiness looks at every task
+  const ready = new Set(readyTasks(tasks));
+  const matches = query.ready
+    ? filtered.filter((task) => ready.has(task))
+    : filtered;
+  const count = matches.length;
+
+  // "high priority work tasks", "overdue task"
+  const noun = (n: number) =>
+    [
+      query.due === "overdue" ? "overdue" : "",
+      query.workflow === "blocked" ? "blocked" : "",
+      query.workflow === "in-progress" ? "in progress" : "",
+      query.priority ? `${query.priority} priority` : "",
+      query.category ?? "",
+      n === 1 ? "task" : "tasks",
+    ]
+      .filter(Boolean)
+      .join(" ");
+
+  const readOut = () => {
+    const titles = matches.slice(0, MAX_READ_OUT).map((t) => {
+      const progress = t.completed ? "" : describeSubtaskProgress(t);
+      return progress ? `${t.title} (${progress})` : t.title;
+    });
+    const remaining = count - titles.length;
+    if (remaining > 0) titles.push(`${remaining} more`);
+    return joinSpoken(titles);
+  };
+
+  if (query.ready) {
+    if (count === 0) {
+      return filtered.length === 0
+        ? `You have no ${noun(2)} to work on.`
+        : `Nothing is ready right now. Every open ${noun(
+            1
+          )} is waiting on something.`;
+    }
+    if (query.kind === "count") {
+      return `You can work on ${count} ${noun(count)} right now.`;
+    }
+    return `You can work on ${count} ${noun(count)} right now: ${readOut()}.`;
+  }
+
+  if (query.completed) {
+    const period = periodNames[query.completed];
+    if (count === 0) return `You didn't finish any ${noun(2)} ${period}.`;
+    if (query.kind === "count") {
+      return `You finished ${count} ${noun(count)} ${period}.`;
+    }
+    return `${capitalize(period)} you finished ${count} ${noun(
+      count
+    )}: ${readOut()}.`;
+  }
+
+  const dueSuffix =
+    query.due && query.due !== "overdue"
+      ? ` due ${periodNames[query.due]}`
+      : "";
+  const status =
+    query.status === "completed"
+      ? " completed"
+      : query.kind === "count"
+      ? " left"
+      : "";
+
+  if (count === 0) {
+    if (query.due === "overdue") return "Nothing is overdue. Nice work!";
+    if (dueSuffix && !query.priority && !query.category) {
+      return `Nothing is${dueSuffix}.`;
+    }
+    return `You have no ${noun(2)}${dueSuffix}${status}.`;
+  }
+
+  if (query.kind === "count") {
+    return `You have ${count} ${noun(count)}${dueSuffix}${status}.`;
+  }
+  return `You have ${count}${status} ${noun(count)}${dueSuffix}: ${readOut()}.`;
+}
+
+// "The report is waiting on data export and sign-off."
+export function answerBlockers(task: Task, tasks: Task[]): string {
+  const blockers = openBlockers(task, tasks).map((t) => `"${t.title}"`);
+  if (blockers.length > 0) {
+    return `"${task.title}" is waiting on ${joinSpoken(blockers)}.`;
+  }
+  return task.blockedBy?.length
+    ? `Everything "${task.title}" was waiting on is done, so you can start it.`
+    : `Nothing is blocking "${task.title}".`;
+}
+
+// "You've spent 1 hour and 5 minutes on "taxes", against an estimate
+// of 2 hours."
+export function answerTimeSpent(task: Task, now: Date = new Date()): string {
+  const tracked = trackedMs(task, now);
+  if (tracked === 0) {
+    return `You haven't tracked any time on "${task.title}" yet.`;
+  }
+  const estimate = task.estimatedMinutes
+    ? `, against an estimate of ${describeDuration(
+        task.estimatedMinutes * 60 * 1000
+      )}`
+    : "";
+  const running = isTimerRunning(task) ? " The timer is still running." : "";
+  return `You've spent ${describeDuration(tracked)} on "${
+    task.title
+  }"${estimate}.${running}`;
+}
+
+// "2 of 5 steps done"; empty for a task without steps
+export function describeSubtaskProgress(task: Task): string {
+  const { done, total } = subtaskProgress(task);
+  if (total === 0) return "";
+  if (done === total) {
+    return total === 1 ? "its step is done" : `all ${total} steps done`;
+  }
+  return `${done} of ${total} ${total === 1 ? "step" : "steps"} done`;
+}
+
+// What is left of a task's checklist, e.g. "2 of 5 steps done on
+// "renovate kitchen". Still to do: buy paint, sand the walls and paint."
+export function answerSubtaskProgress(task: Task): string {
+  const progress = describeSubtaskProgress(task);
+  if (!progress) return `"${task.title}" has no steps.`;
+  const open = (task.subtasks ?? []).filter((subtask) => !subtask.completed);
+  const titles = open.slice(0, MAX_READ_OUT).map((subtask) => subtask.title);
+  if (open.length > titles.length) {
+    titles.push(`${open.length - titles.length} more`);
+  }
+  const left = titles.length ? ` Still to do: ${joinSpoken(titles)}.` : "";
+  return `${capitalize(progress)} on "${task.title}".${left}`;
+}
+
+// "Showing 3 completed high priority tasks matching "invoice"."
+export function describeTaskListView(
+  view: TaskListView,
+  count: number
+): string {
+  const noun = [
+    view.filter === "all" ? "" : view.filter,
+    view.priority ? `${view.priority} priority` : "",
+    count === 1 ? "task" : "tasks",
+  ]
+    .filter(Boolean)
+    .join(" ");
+  const tagged = view.tags?.length ? ` tagged ${joinSpoken(view.tags)}` : "";
+  const matching = view.search ? ` matching "${view.search}"` : "";
+
+  if (
+    view.filter === "all" &&
+    !view.priority &&
+    !view.tags?.length &&
+    !view.search
+  ) {
+    return `Showing all ${count} ${noun}.`;
+  }
+  if (count === 0) return `There are no ${noun}${tagged}${matching}.`;
+  return `Showing ${count} ${noun}${tagged}${matching}.`;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -0,0 +1,55 @@
+// src/lib/temporal.test.ts
+// ------------------------------------------------------
+// Spoken phrase -> date, on a fixed clock:
+// Monday 19 October 2026, 2pm local time.
+// ------------------------------------------------------
+
+import { describe, expect, it } from "vitest";
+import { parseTemporal } from "@/lib/temporal";
+
+const NOW = new Date(2026, 9, 19, 14, 0);
+
+describe("parseTemporal", () => {
+  it.each<[string, "date" | "instant", Date]>([
+    ["today", "date", new Date(2026, 9, 19)],
+    ["tomorrow", "date", new Date(2026, 9, 20)],
+    ["friday", "date", new Date(2026, 9, 23)],
+    ["next friday", "date", new Date(2026, 9, 30)],
+    ["march 5th", "date", new Date(2027, 2, 5)],
+    ["on the 21st", "date", new Date(2026, 9, 21)],
+    ["by the twenty first", "date", new Date(2026, 9, 21)],
+    ["the 21st", "date", new Date(2026, 9, 21)],
+    ["in 2 hours", "instant", new Date(2026, 9, 19, 16, 0)],
+    ["in five minutes", "instant", new Date(2026, 9, 19, 14, 5)],
+    ["tomorrow at 3pm", "instant", new Date(2026, 9, 20, 15, 0)],
+    // Evening words make the hour pm, even once the date rule took them
+    ["tonight at 8", "instant", new Date(2026, 9, 19, 20, 0)],
+    ["this evening at 7", "instant", new Date(2026, 9, 19, 19, 0)],
+    ["at 8 tonight", "instant", new Date(2026, 9, 19, 20, 0)],
+    ["tomorrow night at 9", "instant", new Date(2026, 9, 20, 21, 0)],
+    // 1 to 7 without am or pm is the afternoon
+    ["tomorrow at 6", "instant", new Date(2026, 9, 20, 18, 0)],
+    ["at 5", "instant", new Date(2026, 9, 19, 17, 0)],
+    ["tomorrow morning at 6", "instant", new Date(2026, 9, 20, 6, 0)],
+    ["tomorrow at 9", "instant", new Date(2026, 9, 20, 9, 0)],
+    // A bare time is the next time the clock shows it
+    ["at 5am", "instant", new Date(2026, 9, 20, 5, 0)],
+  ])("%s", (phrase, kind, date) => {
+    expect(parseTemporal(phrase, NOW)).toEqual({ kind, date, rest: "" });
+  });
+
+  it("reads an offset from the deadline", () => {
+    expect(parseTemporal("an hour before", NOW)).toEqual({
+      kind: "beforeDue",
+      minutes: 60,
+      rest: "",
+    });
+  });
+
+  it.each(["the first one", "the second one", "the first one on the list"])(
+    "leaves %s as a reference",
+    (phrase) => {
+      expect(parseTemporal(phrase, NOW)).toBeNull();
+    }
+  );
+});
@@ -0,0 +1,421 @@
+// src/lib/temporal.ts
+// ------------------------------------------------------
+// Spoken Dates and Times
+// Understands "next friday", "in 3 days", "march 5th at
+// 3pm" and friends. Results are in local time, and the
+// clock is a parameter so callers can pin "now". Shared
+// by due dates and reminders.
+// ------------------------------------------------------
+
+import { normalizeNumbers } from "@/lib/numbers";
+
+export interface DateTimeMatch {
+  // Local time; midnight when no time of day was said
+  date: Date;
+  hasTime: boolean;
+  // Whatever was not part of a date or time expression
+  rest: string;
+}
+
+// What a time phrase meant: a moment ("in 20 minutes", "friday at
+// 3pm"), a whole day ("next friday"), or an offset from a task's
+// deadline ("an hour before it's due")
+export type TemporalExpression =
+  | { kind: "instant"; date: Date }
+  | { kind: "date"; date: Date }
+  | { kind: "beforeDue"; minutes: number };
+
+export type TemporalMatch = TemporalExpression & { rest: string };
+
+interface DateRule {
+  pattern: RegExp;
+  // Returning hasTime means the rule already fixed the time of day
+  resolve: (
+    match: RegExpMatchArray,
+    now: Date
+  ) => { date: Date; hasTime?: boolean } | null;
+}
+
+export const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+export const MONTHS: Record<string, number> = {
+  january: 0,
+  jan: 0,
+  february: 1,
+  feb: 1,
+  march: 2,
+  april: 3,
+  apr: 3,
+  may: 4,
+  june: 5,
+  jun: 5,
+  july: 6,
+  jul: 6,
+  august: 7,
+  aug: 7,
+  september: 8,
+  sept: 8,
+  sep: 8,
+  october: 9,
+  oct: 9,
+  november: 10,
+  nov: 10,
+  december: 11,
+  dec: 11,
+};
+
+const MONTH = Object.keys(MONTHS).join("|");
+const AMOUNT = String.raw`(\d+|a|an)`;
+// "5", "5th", "5 th"
+const DAY_NUMBER = String.raw`(\d{1,2})(?:\s?(?:st|nd|rd|th))?`;
+
+// Words that only glue a date to the rest of the sentence
+const FILLER = /\b(?:on|by|due|at|for|the|of|until|till|before)\b/g;
+
+function amount(word: string): number {
+  return word === "a" || word === "an" ? 1 : parseInt(word);
+}
+
+function addDays(now: Date, days: number): Date {
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate() + days);
+}
+
+// Same day of the month, clamped: jan 31 plus a month is feb 28/29
+function addMonths(now: Date, months: number): Date {
+  const target = new Date(now.getFullYear(), now.getMonth() + months, 1);
+  const lastDay = new Date(
+    target.getFullYear(),
+    target.getMonth() + 1,
+    0
+  ).getDate();
+  target.setDate(Math.min(now.getDate(), lastDay));
+  return target;
+}
+
+// Rejects dates like february 30th instead of rolling them over
+function calendarDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(year, month, day);
+  return date.getMonth() === ((month % 12) + 12) % 12 ? date : null;
+}
+
+// "march 5th" means the next one: this year, or next year once passed
+function upcomingDate(
+  now: Date,
+  month: number,
+  day: number,
+  year?: string
+): Date | null {
+  if (year) return calendarDate(parseInt(year), month, day);
+  const date = calendarDate(now.getFullYear(), month, day);
+  if (date && date < addDays(now, 0)) {
+    return calendarDate(now.getFullYear() + 1, month, day);
+  }
+  return date;
+}
+
+// Weeks start on monday. A bare weekday is the coming one (never
+// today), "this friday" may be today, and "next friday" is the one
+// in next week.
+function weekdayDate(now: Date, weekday: number, modifier?: string): Date {
+  const ahead = (weekday - now.getDay() + 7) % 7;
+  if (modifier === "this") return addDays(now, ahead);
+  if (modifier === "next") {
+    const daysToNextMonday = 7 - ((now.getDay() + 6) % 7);
+    return addDays(now, daysToNextMonday + ((weekday + 6) % 7));
+  }
+  return addDays(now, ahead || 7);
+}
+
+const dateRules: DateRule[] = [
+  {
+    pattern: new RegExp(String.raw`\bin ${AMOUNT} (minute|hour)s?\b`),
+    resolve: (match, now) => {
+      const minutes =
+        amount(match[1]) * (match[2] === "hour" ? 60 : 1) * 60 * 1000;
+      return { date: new Date(now.getTime() + minutes), hasTime: true };
+    },
+  },
+  {
+    pattern: /\b(?:the )?day after tomorrow\b/,
+    resolve: (_, now) => ({ date: addDays(now, 2) }),
+  },
+  {
+    pattern: /\b(?:today|tonight|this (?:morning|afternoon|evening))\b/,
+    resolve: (_, now) => ({ date: addDays(now, 0) }),
+  },
+  {
+    pattern: /\btomorrow(?: (?:morning|afternoon|evening|night))?\b/,
+    resolve: (_, now) => ({ date: addDays(now, 1) }),
+  },
+  {
+    pattern: new RegExp(
+      String.raw`\b(?:in|after) ${AMOUNT} (day|week|month|year)s?\b|\b${AMOUNT} (day|week|month|year)s? from (?:now|today)\b`
+    ),
+    resolve: (match, now) => {
+      const count = amount(match[1] ?? match[3]);
+      switch (match[2] ?? match[4]) {
+        case "day":
+          return { date: addDays(now, count) };
+        case "week":
+          return { date: addDays(now, count * 7) };
+        case "month":
+          return { date: addMonths(now, count) };
+        default:
+          return { date: addMonths(now, count * 12) };
+      }
+    },
+  },
+  {
+    pattern: /\bend of (?:the |this )?(week|month|year)\b/,
+    resolve: (match, now) => {
+      if (match[1] === "month") {
+        return {
+          date: new Date(now.getFullYear(), now.getMonth() + 1, 0),
+        };
+      }
+      if (match[1] === "year") {
+        return { date: new Date(now.getFullYear(), 11, 31) };
+      }
+      // The working week ends on friday; at the weekend, on sunday
+      const toFriday = (5 - now.getDay() + 7) % 7;
+      return {
+        date: addDays(now, now.getDay() === 6 ? 1 : toFriday),
+      };
+    },
+  },
+  {
+    pattern: /\bnext (week|month|year)\b/,
+    resolve: (match, now) => {
+      if (match[1] === "week") return { date: addDays(now, 7) };
+      return { date: addMonths(now, match[1] === "month" ? 1 : 12) };
+    },
+  },
+  {
+    pattern: new RegExp(
+      String.raw`\b(?:(this|next|coming|on) )?(${WEEKDAYS.join("|")})\b`
+    ),
+    resolve: (match, now) => ({
+      date: weekdayDate(now, WEEKDAYS.indexOf(match[2]), match[1]),
+    }),
+  },
+  {
+    // "march 5th", "march the 5th, 2027"
+    pattern: new RegExp(
+      String.raw`\b(${MONTH})\.? (?:the )?${DAY_NUMBER}(?:,? (\d{4}))?\b`
+    ),
+    resolve: (match, now) => {
+      const date = upcomingDate(
+        now,
+        MONTHS[match[1]],
+        parseInt(match[2]),
+        match[3]
+      );
+      return date ? { date } : null;
+    },
+  },
+  {
+    // "the 5th of march", "5 march"
+    pattern: new RegExp(
+      String.raw`\b(?:the )?${DAY_NUMBER} (?:of )?(${MONTH})\b(?:,? (\d{4}))?`
+    ),
+    resolve: (match, now) => {
+      const date = upcomingDate(
+        now,
+        MONTHS[match[2]],
+        parseInt(match[1]),
+        match[3]
+      );
+      return date ? { date } : null;
+    },
+  },
+  {
+    // "on the 21st": this month, or next month once it has passed. A
+    // bare ordinal is only a date when something says so, or when it is
+    // all that was said, so "the first one" stays a reference
+    pattern:
+      /\b(?:on|by|due|until|till|before) the (\d{1,2})\s?(?:st|nd|rd|th)\b|^the (\d{1,2})\s?(?:st|nd|rd|th)(?=$| at )/,
+    resolve: (match, now) => {
+      const day = parseInt(match[1] ?? match[2]);
+      for (let months = 0; months < 3; months++) {
+        const date = calendarDate(
+          now.getFullYear(),
+          now.getMonth() + months,
+          day
+        );
+        if (date && date >= addDays(now, 0)) return { date };
+      }
+      return null;
+    },
+  },
+];
+
+// "at 3", "at 3:30 pm", "3pm", "3:15", "at noon", "8 o'clock"
+const TIME_OF_DAY =
+  /\b(?:at )?(\d{1,2})(?::(\d{2}))? ?(am|pm)\b|\bat (\d{1,2})(?::(\d{2}))?(?: o'?clock)?\b|\b(\d{1,2})(?: o'?clock|:(\d{2}))\b|\b(?:at )?(noon|midday|midnight)\b/;
+
+// context is the whole phrase, before a date rule took "tonight" or
+// "this evening" out of text; those still make "at 8" the evening.
+// Without am or pm, 1 to 7 is the afternoon unless the morning was
+// said: nobody means "call mom at 5" before dawn.
+function parseTimeOfDay(
+  text: string,
+  context: string = text
+): { hours: number; minutes: number; matched: string } | null {
+  const match = text.match(TIME_OF_DAY);
+  if (!match) return null;
+
+  if (match[8]) {
+    return {
+      hours: match[8] === "midnight" ? 0 : 12,
+      minutes: 0,
+      matched: match[0],
+    };
+  }
+
+  let hours = parseInt(match[1] ?? match[4] ?? match[6]);
+  const minutes = parseInt(match[2] ?? match[5] ?? match[7] ?? "0");
+  const meridiem = match[3];
+  if (meridiem === "pm" && hours < 12) hours += 12;
+  if (meridiem === "am" && hours === 12) hours = 0;
+  const evening =
+    /\b(?:in the (?:afternoon|evening)|at night|tonight|(?:this|tomorrow) (?:afternoon|evening)|tomorrow night)\b/.test(
+      context
+    );
+  const earlyHour = hours >= 1 && hours <= 7 && !/\bmorning\b/.test(context);
+  if (!meridiem && hours < 12 && (evening || earlyHour)) {
+    hours += 12;
+  }
+
+  if (hours > 23 || minutes > 59) return null;
+  return { hours, minutes, matched: match[0] };
+}
+
+function normalizeSpeech(speech: string): string {
+  return normalizeNumbers(
+    speech
+      .toLowerCase()
+      .replace(/\b([ap])\.? ?m\b\.?/g, "$1m")
+      .replace(/[^a-z0-9:'\s]/g, " ")
+      .replace(/\s+/g, " ")
+      .trim()
+  );
+}
+
+export function parseDateTime(
+  speech: string,
+  now: Date = new Date()
+): DateTimeMatch | null {
+  const spoken = normalizeSpeech(speech);
+  let text = spoken;
+  let date: Date | null = null;
+  let hasTime = false;
+
+  for (const rule of dateRules) {
+    const match = text.match(rule.pattern);
+    if (!match) continue;
+    const resolved = rule.resolve(match, now);
+    if (!resolved) continue;
+
+    date = resolved.date;
+    hasTime = !!resolved.hasTime;
+    text = text.replace(match[0], " ");
+    break;
+  }
+
+  const time = hasTime ? null : parseTimeOfDay(text, spoken);
+  if (time) {
+    text = text
+      .replace(time.matched, " ")
+      .replace(/\b(?:in the (?:morning|afternoon|evening)|at night)\b/, " ");
+    if (!date) {
+      // A bare time is the next time the clock shows it
+      date = addDays(now, 0);
+      date.setHours(time.hours, time.minutes);
+      if (date <= now) date = addDays(date, 1);
+    }
+    date.setHours(time.hours, time.minutes, 0, 0);
+    hasTime = true;
+  }
+
+  if (!date) return null;
+
+  return {
+    date,
+    hasTime,
+    rest: text.replace(FILLER, " ").replace(/\s+/g, " ").trim(),
+  };
+}
+
+const unitMinutes: Record<string, number> = {
+  minute: 1,
+  hour: 60,
+  day: 24 * 60,
+  night: 24 * 60,
+  week: 7 * 24 * 60,
+};
+
+// "an hour before it's due", "2 days before the deadline", "the day before"
+const BEFORE_DUE = new RegExp(
+  String.raw`\b(?:${AMOUNT} (minute|hour|day|week)s?|the (day|night|week)) before(?: (?:it'?s|it is|the task is|the) (?:due|deadline))?\b|\b(?:when|on the day) it'?s due\b`
+);
+
+export function parseTemporal(
+  speech: string,
+  now: Date = new Date()
+): TemporalMatch | null {
+  const text = normalizeSpeech(speech);
+  const beforeDue = text.match(BEFORE_DUE);
+  if (beforeDue) {
+    const minutes = beforeDue[2]
+      ? amount(beforeDue[1]) * unitMinutes[beforeDue[2]]
+      : beforeDue[3]
+      ? unitMinutes[beforeDue[3]]
+      : 0;
+    return {
+      kind: "beforeDue",
+      minutes,
+      rest: text
+        .replace(beforeDue[0], " ")
+        .replace(FILLER, " ")
+        .replace(/\s+/g, " ")
+        .trim(),
+    };
+  }
+
+  const parsed = parseDateTime(text, now);
+  if (!parsed) return null;
+  return {
+    kind: parsed.hasTime ? "instant" : "date",
+    date: parsed.date,
+    rest: parsed.rest,
+  };
+}
+
+// "2025-10-24" for the local calendar day, unlike toISOString which
+// reports the UTC day
+export function toLocalDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Inverse of toLocalDateString: local midnight of that day
+export function fromLocalDateString(isoDate: string): Date {
+  const [year, month, day] = isoDate.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+// "15:05" for the local time of day, as a time input shows it
+export function toLocalTimeString(date: Date): string {
+  const hours = String(date.getHours()).padStart(2, "0");
+  const minutes = String(date.getMinutes()).padStart(2, "0");
+  return `${hours}:${minutes}`;
+}
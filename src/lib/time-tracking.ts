@@ -0,0 +1,160 @@
+// src/lib/time-tracking.ts
+// ------------------------------------------------------
+// Time Tracking
+// Start/stop timers that add time entries to a task, and
+// estimate-versus-actual totals per tag. A running timer
+// is an entry without an end.
+// ------------------------------------------------------
+
+import { normalizeNumbers } from "@/lib/numbers";
+import { generateTaskId } from "@/lib/utils";
+import { Task, TimeEntry } from "@/types/task";
+
+const MINUTE = 60 * 1000;
+
+export function runningEntry(task: Task): TimeEntry | undefined {
+  return task.timeEntries?.find((entry) => !entry.end);
+}
+
+export function isTimerRunning(task: Task): boolean {
+  return !!runningEntry(task);
+}
+
+export function runningTimers(tasks: Task[]): Task[] {
+  return tasks.filter(isTimerRunning);
+}
+
+export function startTimer(task: Task, now: Date = new Date()): Task {
+  if (isTimerRunning(task)) return task;
+  return {
+    ...task,
+    timeEntries: [
+      ...(task.timeEntries ?? []),
+      { id: generateTaskId(), start: now },
+    ],
+    updatedAt: now,
+  };
+}
+
+export function stopTimer(task: Task, now: Date = new Date()): Task {
+  if (!isTimerRunning(task)) return task;
+  return {
+    ...task,
+    timeEntries: task.timeEntries?.map((entry) =>
+      entry.end ? entry : { ...entry, end: now }
+    ),
+    updatedAt: now,
+  };
+}
+
+// Everything tracked on the task, the running timer up to now included
+export function trackedMs(task: Task, now: Date = new Date()): number {
+  return (task.timeEntries ?? []).reduce(
+    (total, entry) =>
+      total + ((entry.end ?? now).getTime() - entry.start.getTime()),
+    0
+  );
+}
+
+// "1h 05m", "12m", "45s"; seconds only matter while a timer ticks
+export function formatDuration(ms: number, withSeconds = false): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => String(n).padStart(2, "0");
+
+  if (hours > 0) {
+    return withSeconds
+      ? `${hours}h ${pad(minutes)}m ${pad(seconds)}s`
+      : `${hours}h ${pad(minutes)}m`;
+  }
+  if (!withSeconds) return `${minutes}m`;
+  return minutes > 0 ? `${minutes}m ${pad(seconds)}s` : `${seconds}s`;
+}
+
+// "1 hour and 5 minutes", "less than a minute"
+export function describeDuration(ms: number): string {
+  const totalMinutes = Math.round(ms / MINUTE);
+  if (totalMinutes < 1) return "less than a minute";
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  const parts = [
+    hours ? `${hours} ${hours === 1 ? "hour" : "hours"}` : "",
+    minutes ? `${minutes} ${minutes === 1 ? "minute" : "minutes"}` : "",
+  ].filter(Boolean);
+  return parts.join(" and ");
+}
+
+// "2 hours", "90 minutes", "an hour and a half", "1h 30m", "45" ->
+// minutes; null when no duration was said
+export function parseDuration(text: string): number | null {
+  const spoken = normalizeNumbers(text.toLowerCase())
+    .replace(/\bhalf an hour\b/, "30 minutes")
+    .replace(/\b(?:an|a)\s+(hour|minute)/, "1 $1")
+    .replace(/\b(\d+)\s+and a half\s+hours?\b/, "$1.5 hours")
+    .replace(/\bhours?\s+and a half\b/, "hours 30 minutes")
+    .trim();
+
+  if (/^\d+$/.test(spoken)) return parseInt(spoken);
+
+  const hours = spoken.match(/(\d+(?:\.\d+)?)\s*(?:h|hrs?|hours?)\b/);
+  const minutes = spoken.match(/(\d+)\s*(?:m|mins?|minutes?)\b/);
+  if (!hours && !minutes) return null;
+
+  const total =
+    (hours ? parseFloat(hours[1]) * 60 : 0) +
+    (minutes ? parseInt(minutes[1]) : 0);
+  return total > 0 ? Math.round(total) : null;
+}
+
+export interface TimeReportRow {
+  tag: string;
+  tasks: number;
+  // Summed over tasks that have an estimate
+  estimatedMinutes: number;
+  // All tracked time, estimated or not
+  actualMinutes: number;
+  // Tracked time on just the estimated tasks, to compare like with like
+  actualOnEstimatedMinutes: number;
+}
+
+// Untagged tasks are reported together
+export const UNTAGGED = "untagged";
+
+// Estimate versus actual per tag; a task with several tags counts
+// towards each of them. Tasks with neither an estimate nor any
+// tracked time are left out.
+export function timeReport(
+  tasks: Task[],
+  now: Date = new Date()
+): TimeReportRow[] {
+  const rows = new Map<string, TimeReportRow>();
+
+  tasks.forEach((task) => {
+    const actual = trackedMs(task, now) / MINUTE;
+    if (!task.estimatedMinutes && actual === 0) return;
+
+    const tags = task.tags?.length ? task.tags : [UNTAGGED];
+    tags.forEach((tag) => {
+      const row = rows.get(tag) ?? {
+        tag,
+        tasks: 0,
+        estimatedMinutes: 0,
+        actualMinutes: 0,
+        actualOnEstimatedMinutes: 0,
+      };
+      row.tasks++;
+      row.actualMinutes += actual;
+      if (task.estimatedMinutes) {
+        row.estimatedMinutes += task.estimatedMinutes;
+        row.actualOnEstimatedMinutes += actual;
+      }
+      rows.set(tag, row);
+    });
+  });
+
+  return Array.from(rows.values()).sort(
+    (a, b) => b.actualMinutes - a.actualMinutes
+  );
+}
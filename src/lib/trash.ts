@@ -0,0 +1,87 @@
+// src/lib/trash.ts
+// ------------------------------------------------------
+// Trash and Archive
+// Deleted tasks go to the trash, where they can be
+// restored until they are purged for good after a
+// configurable number of days. Finished tasks can be
+// archived: out of the list and the statistics, but kept
+// and searchable. Both live apart from the task list.
+// ------------------------------------------------------
+
+import { reviveTask } from "@/lib/utils";
+import { Task } from "@/types/task";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const TRASH_KEY = "voice-task-manager-trash";
+export const ARCHIVE_KEY = "voice-task-manager-archive";
+
+export function loadStoredTasks(key: string): Task[] {
+  try {
+    const stored = localStorage.getItem(key);
+    if (stored) return (JSON.parse(stored) as Task[]).map(reviveTask);
+  } catch (error) {
+    console.error(`Error loading ${key} from localStorage:`, error);
+  }
+  return [];
+}
+
+export interface TrashSettings {
+  // Days a task stays in the trash; 0 keeps it until the trash is emptied
+  retentionDays: number;
+}
+
+export const defaultTrashSettings: TrashSettings = {
+  retentionDays: 30,
+};
+
+const TRASH_SETTINGS_KEY = "voice-task-trash-settings";
+
+export function loadTrashSettings(): TrashSettings {
+  try {
+    const stored = localStorage.getItem(TRASH_SETTINGS_KEY);
+    if (stored) return { ...defaultTrashSettings, ...JSON.parse(stored) };
+  } catch (error) {
+    console.error("Error loading trash settings:", error);
+  }
+  return defaultTrashSettings;
+}
+
+export function saveTrashSettings(settings: TrashSettings): void {
+  localStorage.setItem(TRASH_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+export function moveToTrash(task: Task, now: Date = new Date()): Task {
+  return { ...task, deletedAt: now };
+}
+
+export function restoreFromTrash(task: Task): Task {
+  return { ...task, deletedAt: undefined };
+}
+
+export function archiveTask(task: Task, now: Date = new Date()): Task {
+  return { ...task, archivedAt: now };
+}
+
+export function unarchiveTask(task: Task): Task {
+  return { ...task, archivedAt: undefined };
+}
+
+// When a trashed task will be deleted for good; null when it is kept
+// until the trash is emptied
+export function purgeDate(task: Task, settings: TrashSettings): Date | null {
+  if (!task.deletedAt || settings.retentionDays <= 0) return null;
+  return new Date(task.deletedAt.getTime() + settings.retentionDays * DAY);
+}
+
+// Trashed tasks whose time is up
+export function expiredTrash(
+  trash: Task[],
+  settings: TrashSettings,
+  now: Date = new Date()
+): Task[] {
+  return trash.filter((task) => {
+    const purgeAt = purgeDate(task, settings);
+    return !!purgeAt && purgeAt <= now;
+  });
+}
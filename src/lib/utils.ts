@@ -1,4 +1,14 @@
-import { Task, TaskFormData } from "@/types/task";
+import { dueFromLocal, isOverdue, normalizeDeadline } from "@/lib/deadlines";
+import { sortByManualOrder } from "@/lib/ordering";
+import { mergeTags } from "@/lib/tags";
+import { taskStatus } from "@/lib/workflow";
+import {
+  Subtask,
+  Task,
+  TaskFilters,
+  TaskFormData,
+  TaskListView,
+} from "@/types/task";
 
 // Generate unique ID for tasks
 export function generateTaskId(): string {
@@ -8,38 +18,166 @@ export function generateTaskId(): string {
 // Create a new task from form data
 export function createTask(formData: TaskFormData): Task {
   const now = new Date();
+  const id = generateTaskId();
   return {
-    id: generateTaskId(),
+    id,
     title: formData.title,
     description: formData.description,
     completed: false,
+    status: "todo",
     priority: formData.priority,
-    category: formData.category,
+    tags: mergeTags(
+      formData.tags,
+      formData.category ? [formData.category] : []
+    ),
     createdAt: now,
     updatedAt: now,
-    dueDate: formData.dueDate ? new Date(formData.dueDate) : undefined,
+    ...(formData.dueDate && dueFromLocal(formData.dueDate, formData.dueTime)),
+    subtasks: formData.subtasks,
+    completeWithSubtasks: formData.completeWithSubtasks,
+    blockedBy: formData.blockedBy?.length ? formData.blockedBy : undefined,
+    estimatedMinutes: formData.estimatedMinutes,
+    ...(formData.recurrence && {
+      recurrence: formData.recurrence,
+      seriesId: id,
+      occurrence: 1,
+    }),
   };
 }
 
 // Update an existing task
 export function updateTask(task: Task, updates: Partial<TaskFormData>): Task {
+  const { category, dueDate, dueTime, ...changes } = updates;
   return {
     ...task,
-    ...updates,
+    ...changes,
+    // A category is one more tag
+    tags: mergeTags(changes.tags ?? task.tags, category ? [category] : []),
     updatedAt: new Date(),
-    dueDate: updates.dueDate ? new Date(updates.dueDate) : task.dueDate,
+    // A new day keeps the old time unless a time (or none) comes with it
+    ...(dueDate &&
+      dueFromLocal(dueDate, "dueTime" in updates ? dueTime : task.dueTime)),
+    // A task that starts repeating becomes the first of its series
+    seriesId: updates.recurrence ? (task.seriesId ?? task.id) : task.seriesId,
+    occurrence: updates.recurrence ? (task.occurrence ?? 1) : task.occurrence,
   };
 }
 
-// Toggle task completion status
+// Toggle task completion status; a reopened task goes back to "todo"
 export function toggleTaskCompletion(task: Task): Task {
+  const now = new Date();
   return {
     ...task,
     completed: !task.completed,
-    updatedAt: new Date(),
+    status: task.completed ? "todo" : "done",
+    completedAt: task.completed ? undefined : now,
+    updatedAt: now,
+  };
+}
+
+export function createSubtask(title: string): Subtask {
+  return { id: generateTaskId(), title, completed: false };
+}
+
+// With completeWithSubtasks the task is done once every step is, and
+// open again as soon as one is not
+function withSubtasks(task: Task, subtasks: Subtask[]): Task {
+  const now = new Date();
+  const completed = task.completeWithSubtasks
+    ? subtasks.length > 0 && subtasks.every((subtask) => subtask.completed)
+    : task.completed;
+  return {
+    ...task,
+    subtasks,
+    completed,
+    status:
+      completed === task.completed ? task.status : completed ? "done" : "todo",
+    completedAt:
+      completed === task.completed
+        ? task.completedAt
+        : completed
+        ? now
+        : undefined,
+    updatedAt: now,
+  };
+}
+
+export function addSubtask(task: Task, title: string): Task {
+  return withSubtasks(task, [...(task.subtasks ?? []), createSubtask(title)]);
+}
+
+// Flips a step, or sets it when `completed` is given
+export function toggleSubtask(
+  task: Task,
+  subtaskId: string,
+  completed?: boolean
+): Task {
+  return withSubtasks(
+    task,
+    (task.subtasks ?? []).map((subtask) =>
+      subtask.id === subtaskId
+        ? { ...subtask, completed: completed ?? !subtask.completed }
+        : subtask
+    )
+  );
+}
+
+export function subtaskProgress(task: Task): { done: number; total: number } {
+  const subtasks = task.subtasks ?? [];
+  return {
+    done: subtasks.filter((subtask) => subtask.completed).length,
+    total: subtasks.length,
+  };
+}
+
+// Restore Date fields on a task parsed from JSON
+export function reviveTask(task: Task): Task {
+  return {
+    ...task,
+    tags: mergeTags(task.tags, task.category ? [task.category] : []),
+    category: undefined,
+    status: taskStatus(task),
+    createdAt: new Date(task.createdAt),
+    updatedAt: new Date(task.updatedAt),
+    ...normalizeDeadline({
+      dueDate: task.dueDate ? new Date(task.dueDate) : undefined,
+      dueTime: task.dueTime,
+    }),
+    completedAt: task.completedAt ? new Date(task.completedAt) : undefined,
+    deletedAt: task.deletedAt ? new Date(task.deletedAt) : undefined,
+    archivedAt: task.archivedAt ? new Date(task.archivedAt) : undefined,
+    timeEntries: task.timeEntries?.map((entry) => ({
+      ...entry,
+      start: new Date(entry.start),
+      end: entry.end ? new Date(entry.end) : undefined,
+    })),
+    activity: task.activity?.map((entry) => ({
+      ...entry,
+      at: new Date(entry.at),
+    })),
+    voiceMemo: task.voiceMemo && {
+      ...task.voiceMemo,
+      recordedAt: new Date(task.voiceMemo.recordedAt),
+    },
+    recurrence: task.recurrence && {
+      ...task.recurrence,
+      until: task.recurrence.until
+        ? new Date(task.recurrence.until)
+        : undefined,
+    },
   };
 }
 
+// Local midnight at the start of the given day, shifted by whole days
+export function startOfDay(date: Date, addDays = 0): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + addDays);
+}
+
+// Monday of the date's week, at midnight
+export function startOfWeek(date: Date): Date {
+  return startOfDay(date, -((date.getDay() + 6) % 7));
+}
+
 // Sort tasks by priority
 export function sortTasksByPriority(tasks: Task[]): Task[] {
   const priorityOrder = { high: 3, medium: 2, low: 1 };
@@ -48,16 +186,40 @@ export function sortTasksByPriority(tasks: Task[]): Task[] {
   );
 }
 
+export const defaultTaskListView: TaskListView = {
+  filter: "all",
+  priority: undefined,
+  tags: undefined,
+  search: "",
+};
+
+// Tasks visible in the list for the given view, in their manual order
+export function applyTaskListView(tasks: Task[], view: TaskListView): Task[] {
+  const search = view.search.toLowerCase();
+  return sortByManualOrder(tasks).filter((task) => {
+    const matchesFilter =
+      view.filter === "all" ||
+      (view.filter === "active" && !task.completed) ||
+      (view.filter === "completed" && task.completed);
+
+    const matchesPriority = !view.priority || task.priority === view.priority;
+
+    const matchesTags = (view.tags ?? []).every((tag) =>
+      task.tags?.includes(tag)
+    );
+
+    const matchesSearch =
+      search === "" ||
+      task.title.toLowerCase().includes(search) ||
+      task.description?.toLowerCase().includes(search) ||
+      task.tags?.some((tag) => tag.includes(search));
+
+    return matchesFilter && matchesPriority && matchesTags && matchesSearch;
+  });
+}
+
 // Filter tasks based on criteria
-export function filterTasks(
-  tasks: Task[],
-  filters: {
-    completed?: boolean;
-    priority?: "low" | "medium" | "high";
-    category?: string;
-    search?: string;
-  }
-): Task[] {
+export function filterTasks(tasks: Task[], filters: TaskFilters): Task[] {
   return tasks.filter((task) => {
     if (
       filters.completed !== undefined &&
@@ -65,12 +227,39 @@ export function filterTasks(
     ) {
       return false;
     }
+    if (filters.status && taskStatus(task) !== filters.status) {
+      return false;
+    }
     if (filters.priority && task.priority !== filters.priority) {
       return false;
     }
-    if (filters.category && task.category !== filters.category) {
+    const tags = mergeTags(
+      filters.tags,
+      filters.category ? [filters.category] : []
+    );
+    if (tags.some((tag) => !task.tags?.includes(tag))) {
       return false;
     }
+    if (filters.dueFrom || filters.dueBefore) {
+      if (!task.dueDate) return false;
+      if (filters.dueFrom && task.dueDate < filters.dueFrom) return false;
+      if (filters.dueBefore && task.dueDate >= filters.dueBefore) return false;
+    }
+    if (filters.overdueAt && !isOverdue(task, filters.overdueAt)) {
+      return false;
+    }
+    if (filters.completedFrom || filters.completedBefore) {
+      if (!task.completedAt) return false;
+      if (filters.completedFrom && task.completedAt < filters.completedFrom) {
+        return false;
+      }
+      if (
+        filters.completedBefore &&
+        task.completedAt >= filters.completedBefore
+      ) {
+        return false;
+      }
+    }
     if (filters.search) {
       const searchLower = filters.search.toLowerCase();
       return (
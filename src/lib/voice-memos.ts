@@ -0,0 +1,249 @@
+// src/lib/voice-memos.ts
+// ------------------------------------------------------
+// Voice Memos
+// A short audio note per task, recorded with MediaRecorder
+// and kept in IndexedDB keyed by task id; the task itself
+// only carries the memo's length. While recording, the
+// speech recognizer transcribes the memo when it can.
+// ------------------------------------------------------
+
+import { createSpeechRecognizer, SpeechRecognizer } from "@/lib/recognizers";
+import { VoiceMemoInfo } from "@/types/task";
+
+// Memos are notes, not dictation; recording stops on its own after this
+export const MAX_MEMO_MS = 2 * 60 * 1000;
+
+// A finished recording, before it belongs to a task
+export interface VoiceMemoRecording extends VoiceMemoInfo {
+  audio: Blob;
+  // What the recognizer heard, if anything
+  transcript?: string;
+}
+
+interface StoredVoiceMemo {
+  taskId: string;
+  audio: Blob;
+  mimeType: string;
+}
+
+const DB_NAME = "voice-task-memos";
+const STORE_NAME = "memos";
+
+export class VoiceMemoStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  static isSupported(): boolean {
+    return typeof window !== "undefined" && "indexedDB" in window;
+  }
+
+  public async save(taskId: string, recording: VoiceMemoRecording) {
+    const memo: StoredVoiceMemo = {
+      taskId,
+      audio: recording.audio,
+      mimeType: recording.mimeType,
+    };
+    await this.request("readwrite", (store) => store.put(memo));
+  }
+
+  public async getAudio(taskId: string): Promise<Blob | null> {
+    const memo = await this.request<StoredVoiceMemo | undefined>(
+      "readonly",
+      (store) => store.get(taskId)
+    );
+    return memo?.audio ?? null;
+  }
+
+  public async delete(taskId: string) {
+    await this.request("readwrite", (store) => store.delete(taskId));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE_NAME, { keyPath: "taskId" });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Let a later call try again
+      this.db.catch(() => (this.db = null));
+    }
+    return this.db;
+  }
+
+  private async request<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = run(
+        db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)
+      );
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+export class VoiceMemoRecorder {
+  private recorder: MediaRecorder | null = null;
+  private stream: MediaStream | null = null;
+  private recognizer: SpeechRecognizer | null = null;
+  private chunks: Blob[] = [];
+  private transcript: string[] = [];
+  private startedAt = 0;
+  private limitTimeoutId?: number;
+
+  static isSupported(): boolean {
+    return (
+      typeof window !== "undefined" &&
+      "MediaRecorder" in window &&
+      !!navigator.mediaDevices?.getUserMedia
+    );
+  }
+
+  // onLimit fires when MAX_MEMO_MS is reached; call stop() to get
+  // the recording
+  public async start(onLimit?: () => void) {
+    this.stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    this.chunks = [];
+    this.transcript = [];
+
+    this.recorder = new MediaRecorder(this.stream);
+    this.recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) this.chunks.push(event.data);
+    };
+    this.recorder.start();
+    this.startedAt = Date.now();
+    this.limitTimeoutId = window.setTimeout(() => onLimit?.(), MAX_MEMO_MS);
+
+    this.startTranscribing();
+  }
+
+  public isRecording(): boolean {
+    return this.recorder?.state === "recording";
+  }
+
+  public async stop(): Promise<VoiceMemoRecording> {
+    const recorder = this.recorder;
+    if (!recorder || recorder.state === "inactive") {
+      throw new Error("No memo is being recorded");
+    }
+    const durationMs = Date.now() - this.startedAt;
+    const mimeType = recorder.mimeType || "audio/webm";
+
+    const [audio] = await Promise.all([
+      new Promise<Blob>((resolve) => {
+        recorder.onstop = () =>
+          resolve(new Blob(this.chunks, { type: mimeType }));
+        recorder.stop();
+      }),
+      this.stopTranscribing(),
+    ]);
+    const transcript = this.transcript.join(" ").trim();
+    const recording = {
+      audio,
+      mimeType,
+      durationMs,
+      recordedAt: new Date(this.startedAt),
+      transcript: transcript || undefined,
+    };
+    this.release();
+    return recording;
+  }
+
+  // Drops the recording, e.g. when the form closes mid-memo
+  public cancel() {
+    if (this.recorder && this.recorder.state !== "inactive") {
+      this.recorder.onstop = null;
+      this.recorder.stop();
+    }
+    this.recognizer?.abort();
+    this.release();
+  }
+
+  // Best effort: the memo is kept even when nothing could transcribe it
+  private startTranscribing() {
+    try {
+      this.recognizer = createSpeechRecognizer();
+    } catch (error) {
+      console.warn("Voice memo will not be transcribed:", error);
+      this.recognizer = null;
+    }
+    const recognizer = this.recognizer;
+    if (!recognizer) return;
+
+    recognizer.continuous = true;
+    recognizer.interimResults = false;
+    recognizer.onresult = (result) => {
+      if (result.isFinal && result.transcript.trim()) {
+        this.transcript.push(result.transcript.trim());
+      }
+    };
+    recognizer.onerror = (error) => {
+      console.warn("Voice memo transcription error:", error.error);
+    };
+    // Web Speech ends after a long pause; pick up again while recording
+    recognizer.onend = () => {
+      if (this.isRecording() && this.recognizer === recognizer) {
+        try {
+          recognizer.start();
+        } catch {
+          this.recognizer = null;
+        }
+      }
+    };
+    try {
+      recognizer.start();
+    } catch (error) {
+      console.warn("Voice memo will not be transcribed:", error);
+      this.recognizer = null;
+    }
+  }
+
+  // The last words are recognized after the recognizer is told to
+  // stop, so wait for it to end (but not for long)
+  private stopTranscribing(): Promise<void> {
+    const recognizer = this.recognizer;
+    if (!recognizer) return Promise.resolve();
+    return new Promise((resolve) => {
+      const timeoutId = window.setTimeout(resolve, 2000);
+      recognizer.onend = () => {
+        clearTimeout(timeoutId);
+        resolve();
+      };
+      recognizer.stop();
+    });
+  }
+
+  private release() {
+    clearTimeout(this.limitTimeoutId);
+    this.stream?.getTracks().forEach((track) => track.stop());
+    this.stream = null;
+    this.recorder = null;
+    if (this.recognizer) {
+      this.recognizer.onend = null;
+      this.recognizer = null;
+    }
+  }
+}
+
+// Plays a memo through to its end; the promise settles when it stops
+export function playAudio(audio: Blob): Promise<void> {
+  const url = URL.createObjectURL(audio);
+  const player = new Audio(url);
+  return new Promise<void>((resolve, reject) => {
+    player.onended = () => resolve();
+    player.onerror = () => reject(new Error("The memo could not be played"));
+    player.play().catch(reject);
+  }).finally(() => URL.revokeObjectURL(url));
+}
+
+// "0:42", "1:05"
+export function formatMemoLength(ms: number): string {
+  const seconds = Math.max(1, Math.round(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
@@ -4,6 +4,22 @@
 // TypeScript-safe & stable version
 // ------------------------------------------------------
 
+import { formatDueTime } from "@/lib/deadlines";
+import {
+  RecognizerError,
+  RecognizerResult,
+  SpeechRecognizer,
+  createSpeechRecognizer,
+} from "@/lib/recognizers";
+import { describeRecurrence } from "@/lib/recurrence";
+import { mergeTags } from "@/lib/tags";
+import {
+  parseTemporal,
+  toLocalDateString,
+  toLocalTimeString,
+} from "@/lib/temporal";
+import { WakeWordScore, detectWakeWord } from "@/lib/wake-word";
+
 export const voiceCommands = {
   createTask: ["create task", "add task", "new task", "make task"],
   completeTask: ["complete", "finish", "done", "mark complete"],
@@ -12,28 +28,70 @@ export const voiceCommands = {
 };
 
 export interface VoiceConfig {
-  wakeWord: string;
+  wakeWords: string[];
+  // Minimum match score (0-1) a phrase needs to count as the wake word
+  wakeWordThreshold: number;
   language: string;
   continuous: boolean;
 }
 
+export const defaultVoiceConfig: VoiceConfig = {
+  wakeWords: ["hi voice"],
+  wakeWordThreshold: 0.8,
+  language: "en-US",
+  continuous: true,
+};
+
+const VOICE_CONFIG_KEY = "voice-task-voice-config";
+// Earlier defaults, saved along with the other settings even though
+// nobody picked them; they follow the current default instead
+const PAST_DEFAULT_THRESHOLDS = [0.75, 0.85];
+
+export function loadVoiceConfig(): VoiceConfig {
+  try {
+    const stored = localStorage.getItem(VOICE_CONFIG_KEY);
+    if (stored) {
+      const config = { ...defaultVoiceConfig, ...JSON.parse(stored) };
+      if (PAST_DEFAULT_THRESHOLDS.includes(config.wakeWordThreshold)) {
+        config.wakeWordThreshold = defaultVoiceConfig.wakeWordThreshold;
+      }
+      return config;
+    }
+  } catch (error) {
+    console.error("Error loading voice settings:", error);
+  }
+  return defaultVoiceConfig;
+}
+
+// The threshold is only kept once it was moved off the default, so a
+// better default reaches everyone else
+export function saveVoiceConfig(config: VoiceConfig): void {
+  const { wakeWordThreshold, ...rest } = config;
+  const chosen =
+    wakeWordThreshold === defaultVoiceConfig.wakeWordThreshold ? rest : config;
+  localStorage.setItem(VOICE_CONFIG_KEY, JSON.stringify(chosen));
+}
+
 export interface TaskQuestion {
   id: string;
   question: string;
   field: keyof import("@/types/task").TaskFormData;
   type: "text" | "select" | "date";
+  // Asked even when the rest of the task was given in one sentence
+  required?: boolean;
   options?: string[];
   validation?: (value: string) => boolean;
   followUp?: string;
 }
 
 export class VoiceManager {
-  private recognition: SpeechRecognition | null = null;
+  private recognition: SpeechRecognizer | null = null;
   private synthesis: SpeechSynthesis;
   private isListening = false;
   private isWaitingForWakeWord = false;
-  private wakeWord = "hi voice";
+  private config: VoiceConfig;
   private onWakeWordDetected?: () => void;
+  private onWakeWordScored?: (score: WakeWordScore) => void;
   private onSpeechResult?: (text: string) => void;
   private onListeningStateChange?: (isListening: boolean) => void;
   private retryTimeoutId?: number;
@@ -44,19 +102,25 @@ export class VoiceManager {
   private hasShownSecurityAlert = false;
   private permanentlyDisabled = false;
 
-  constructor() {
+  constructor(
+    config: Partial<VoiceConfig> = {},
+    recognizer: SpeechRecognizer | null = createSpeechRecognizer()
+  ) {
     this.synthesis = window.speechSynthesis;
+    this.config = { ...defaultVoiceConfig, ...config };
 
-    if (this.isSpeechRecognitionSupported()) {
-      this.initializeRecognition();
+    if (recognizer) {
+      this.initializeRecognition(recognizer);
       console.log(
         "%c🎤 Voice Manager Initialized",
         "color: #10b981; font-weight: bold; font-size: 14px;",
-        "\n✅ Speech recognition is supported in this browser" +
+        `\n✅ Speech recognition backend: ${recognizer.description}` +
           "\n📍 Running on:",
         location.href +
           "\n💡 Say 'Hi Voice' to activate voice commands" +
-          "\n\n⚠️ Note: Requires internet connection to reach Google Speech API"
+          (recognizer.engine === "web-speech"
+            ? "\n\n⚠️ Note: Requires internet connection to reach Google Speech API"
+            : "")
       );
     } else {
       console.warn("Speech recognition is not supported in this browser");
@@ -67,58 +131,47 @@ export class VoiceManager {
     if (this.debug) console.log(`[VoiceManager] ${msg}`);
   }
 
-  private isSpeechRecognitionSupported(): boolean {
-    return "webkitSpeechRecognition" in window || "SpeechRecognition" in window;
-  }
-
-  private initializeRecognition() {
-    const SpeechRecognitionConstructor =
-      (window as any).SpeechRecognition ||
-      (window as any).webkitSpeechRecognition;
-
-    if (!SpeechRecognitionConstructor) {
-      console.error("Speech recognition not supported in this browser");
-      return;
-    }
-
-    this.recognition = new SpeechRecognitionConstructor() as SpeechRecognition;
-    this.recognition.continuous = true;
+  private initializeRecognition(recognizer: SpeechRecognizer) {
+    this.recognition = recognizer;
+    this.recognition.continuous = this.config.continuous;
     this.recognition.interimResults = true;
-    this.recognition.lang = "en-US";
+    this.recognition.lang = this.config.language;
 
     // ------------------------
     // Recognition Handlers
     // ------------------------
 
-    this.recognition!.onstart = () => {
+    this.recognition.onstart = () => {
       this.isRecognizing = true;
       this.isListening = true;
       // Don't reset retry count here - it should only be reset on successful recognition
       // or when explicitly starting wake word listening for the first time
       console.log("🎤 Recognition started - microphone is active");
       if (this.isWaitingForWakeWord) {
-        console.log(`👂 Listening for wake word: "${this.wakeWord}"`);
+        console.log(
+          `👂 Listening for wake word: "${this.config.wakeWords.join('" or "')}"`
+        );
       }
       this.onListeningStateChange?.(true);
     };
 
-    this.recognition!.onaudiostart = () => {
+    this.recognition.onaudiostart = () => {
       console.log("🔊 Audio input detected - microphone is receiving sound");
     };
 
-    this.recognition!.onsoundstart = () => {
+    this.recognition.onsoundstart = () => {
       console.log("📢 Sound detected - processing audio...");
     };
 
-    this.recognition!.onspeechstart = () => {
+    this.recognition.onspeechstart = () => {
       console.log("🗣️ Speech detected - recognizing words...");
     };
 
-    this.recognition!.onspeechend = () => {
+    this.recognition.onspeechend = () => {
       console.log("🔇 Speech ended");
     };
 
-    this.recognition!.onend = () => {
+    this.recognition.onend = () => {
       this.isRecognizing = false;
       this.isListening = false;
       this.log("Recognition ended");
@@ -142,11 +195,10 @@ export class VoiceManager {
       }
     };
 
-    this.recognition!.onresult = (event: SpeechRecognitionEvent) => {
-      const lastResult = event.results[event.results.length - 1];
-      if (lastResult.isFinal) {
-        const transcript = lastResult[0].transcript.toLowerCase().trim();
-        const confidence = lastResult[0].confidence;
+    this.recognition.onresult = (result: RecognizerResult) => {
+      if (result.isFinal) {
+        const transcript = result.transcript.toLowerCase().trim();
+        const confidence = result.confidence;
         console.log(
           `🎤 Heard: "${transcript}" (confidence: ${(confidence * 100).toFixed(
             1
@@ -157,15 +209,26 @@ export class VoiceManager {
         this.retryCount = 0;
 
         if (this.isWaitingForWakeWord) {
+          const score = detectWakeWord(
+            transcript,
+            this.config.wakeWords,
+            this.config.wakeWordThreshold
+          );
           console.log(
-            `🔍 Checking for wake word "${this.wakeWord}" in: "${transcript}"`
+            `🔍 Wake word score for "${transcript}": ${score.score.toFixed(
+              2
+            )} against "${score.phrase}" (threshold ${
+              this.config.wakeWordThreshold
+            })`
           );
-          if (transcript.includes(this.wakeWord)) {
-            console.log("✅ Wake word detected!");
+          this.onWakeWordScored?.(score);
+
+          if (score.detected) {
+            console.log(`✅ Wake word detected! Heard "${score.heard}"`);
             this.handleWakeWordDetected();
           } else {
             console.log(
-              `❌ Wake word not found. Try saying "${this.wakeWord}"`
+              `❌ Wake word not found. Try saying "${this.config.wakeWords[0]}"`
             );
           }
         } else {
@@ -173,7 +236,7 @@ export class VoiceManager {
         }
       }
     };
-    this.recognition!.onerror = (event: any) => {
+    this.recognition.onerror = (event: RecognizerError) => {
       console.error("Speech recognition error:", event.error);
 
       if (this.retryTimeoutId) {
@@ -316,7 +379,7 @@ export class VoiceManager {
     }
 
     try {
-      this.recognition!.start();
+      this.recognition.start();
       this.isRecognizing = true;
       this.log("Recognition started safely");
     } catch (error: any) {
@@ -332,7 +395,7 @@ export class VoiceManager {
   private safeStop() {
     if (this.recognition && this.isRecognizing) {
       try {
-        this.recognition!.stop();
+        this.recognition.stop();
         this.isRecognizing = false;
         this.log("Recognition stopped safely");
       } catch (error) {
@@ -407,6 +470,10 @@ export class VoiceManager {
     this.onWakeWordDetected = callback;
   }
 
+  public onWakeWordScore(callback: (score: WakeWordScore) => void) {
+    this.onWakeWordScored = callback;
+  }
+
   public onSpeech(callback: (text: string) => void) {
     this.onSpeechResult = callback;
   }
@@ -415,6 +482,23 @@ export class VoiceManager {
     this.onListeningStateChange = callback;
   }
 
+  // ------------------------
+  // Runtime Configuration
+  // ------------------------
+
+  public configure(updates: Partial<VoiceConfig>) {
+    this.config = { ...this.config, ...updates };
+    if (this.recognition) {
+      // Takes effect the next time recognition starts
+      this.recognition.lang = this.config.language;
+      this.recognition.continuous = this.config.continuous;
+    }
+  }
+
+  public getConfig(): VoiceConfig {
+    return this.config;
+  }
+
   public isCurrentlyListening() {
     return this.isListening;
   }
@@ -448,6 +532,7 @@ export const taskQuestions: TaskQuestion[] = [
     question: "What would you like to call this task?",
     field: "title",
     type: "text",
+    required: true,
     validation: (value) => value.trim().length > 0,
     followUp: "Got it!",
   },
@@ -470,47 +555,91 @@ export const taskQuestions: TaskQuestion[] = [
     followUp: "Priority set.",
   },
   {
-    id: "category",
+    id: "tags",
     question:
-      "What category is this task? For example: work, personal, shopping, or say 'skip'.",
-    field: "category",
+      "Any tags for this task? For example: work, urgent, shopping, or say 'skip'.",
+    field: "tags",
     type: "text",
-    followUp: "Category added.",
+    followUp: "Tags added.",
   },
   {
     id: "dueDate",
     question:
-      "When is this due? You can say things like 'today', 'tomorrow', 'next Friday', or 'skip'.",
+      "When is this due? You can say things like 'today', 'tomorrow', 'next Friday at 3pm', or 'skip'.",
     field: "dueDate",
     type: "date",
     followUp: "Due date set.",
   },
 ];
 
+// Spoken summary of a task's details, e.g.
+// "pay the bill", high priority, tagged finance, due Friday, October 24
+export function describeTaskForSpeech(
+  taskData: import("@/types/task").TaskFormData
+): string {
+  const parts = [`"${taskData.title}"`];
+  if (taskData.priority) parts.push(`${taskData.priority} priority`);
+  const tags = mergeTags(
+    taskData.tags,
+    taskData.category ? [taskData.category] : []
+  );
+  if (tags.length) parts.push(`tagged ${joinSpoken(tags)}`);
+  if (taskData.dueDate) {
+    parts.push(`due ${formatSpokenDate(taskData.dueDate, taskData.dueTime)}`);
+  }
+  if (taskData.recurrence) {
+    parts.push(`repeating ${describeRecurrence(taskData.recurrence)}`);
+  }
+  return parts.join(", ");
+}
+
+// "A", "A and B", "A, B and C"
+export function joinSpoken(items: string[], conjunction = "and"): string {
+  if (items.length <= 1) return items.join("");
+  return `${items.slice(0, -1).join(", ")} ${conjunction} ${
+    items[items.length - 1]
+  }`;
+}
+
+// "2025-10-24" -> "Friday, October 24", read in local time; with a
+// due time, "Friday, October 24 at 3:30 PM"
+export function formatSpokenDate(isoDate: string, time?: string): string {
+  const [year, month, day] = isoDate.split("-").map(Number);
+  const date = new Date(year, month - 1, day).toLocaleDateString("en-US", {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+  });
+  return time ? `${date} at ${formatDueTime(time)}` : date;
+}
+
 // ------------------------------------------------------
 // Date Parsing Utility
 // ------------------------------------------------------
 
-export function parseDateFromSpeech(speech: string): string {
-  const text = speech.toLowerCase();
-  const today = new Date();
+// "next friday" -> "2025-10-31" on the local calendar, or "" when no
+// date was heard
+export function parseDateFromSpeech(
+  speech: string,
+  now: Date = new Date()
+): string {
+  const parsed = parseTemporal(speech, now);
+  // "an hour before it's due" is no use as a due date
+  return parsed && parsed.kind !== "beforeDue"
+    ? toLocalDateString(parsed.date)
+    : "";
+}
 
-  if (text.includes("today")) return today.toISOString().split("T")[0];
-  if (text.includes("tomorrow")) {
-    const d = new Date(today);
-    d.setDate(d.getDate() + 1);
-    return d.toISOString().split("T")[0];
-  }
-  if (text.includes("next week")) {
-    const d = new Date(today);
-    d.setDate(d.getDate() + 7);
-    return d.toISOString().split("T")[0];
-  }
-  if (text.includes("monday")) {
-    const d = new Date(today);
-    const diff = (1 + 7 - today.getDay()) % 7 || 7;
-    d.setDate(today.getDate() + diff);
-    return d.toISOString().split("T")[0];
-  }
-  return "";
+// "friday at 3pm" -> the day and "15:00"; a day alone is due all day
+export function parseDueFromSpeech(
+  speech: string,
+  now: Date = new Date()
+): { dueDate: string; dueTime?: string } | null {
+  const parsed = parseTemporal(speech, now);
+  if (!parsed || parsed.kind === "beforeDue") return null;
+  return {
+    dueDate: toLocalDateString(parsed.date),
+    dueTime:
+      parsed.kind === "instant" ? toLocalTimeString(parsed.date) : undefined,
+  };
 }
@@ -0,0 +1,47 @@
+// src/lib/wake-word.test.ts
+// ------------------------------------------------------
+// Heard phrase -> wake or not, at the default threshold
+// for the default "hi voice".
+// ------------------------------------------------------
+
+import { describe, expect, it } from "vitest";
+import { defaultVoiceConfig } from "@/lib/voice";
+import { detectWakeWord } from "@/lib/wake-word";
+
+const wakes = (heard: string) =>
+  detectWakeWord(
+    heard,
+    defaultVoiceConfig.wakeWords,
+    defaultVoiceConfig.wakeWordThreshold
+  ).detected;
+
+describe("detectWakeWord", () => {
+  it.each([
+    "hi voice",
+    "hi, voice",
+    "okay hi voice add task buy milk",
+    // Misheard the way speech engines mishear it
+    "hi boys",
+    "high voice",
+    "hey voice",
+    "hi vois",
+    "hivoice",
+    "hi the voice",
+  ])("wakes on %s", (heard) => {
+    expect(wakes(heard)).toBe(true);
+  });
+
+  it.each([
+    "hi vice president",
+    "hi joyce",
+    "hi noise",
+    "the voice of reason",
+    "i have a voice",
+    "my voice is hoarse",
+    "a voice message",
+    "by voice",
+    "hi there",
+  ])("stays asleep on %s", (heard) => {
+    expect(wakes(heard)).toBe(false);
+  });
+});
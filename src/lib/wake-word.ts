@@ -0,0 +1,107 @@
+// src/lib/wake-word.ts
+// ------------------------------------------------------
+// Wake Word Detection
+// Scores every stretch of a transcript against the
+// configured wake phrases by spelling and by sound.
+// ------------------------------------------------------
+
+import {
+  normalizeText,
+  phoneticKey,
+  similarity,
+  soundSimilarity,
+} from "@/lib/fuzzy";
+
+export interface WakeWordScore {
+  phrase: string;
+  heard: string;
+  score: number;
+  detected: boolean;
+}
+
+// Sound is the stronger signal, but spelling breaks ties between
+// words that sound alike
+function wordScore(heard: string, target: string): number {
+  const spelling = similarity(
+    heard.replace(/ /g, ""),
+    target.replace(/ /g, "")
+  );
+  return 0.8 * soundSimilarity(heard, target) + 0.2 * spelling;
+}
+
+// How close one stretch of words is to the phrase. Word by word when
+// the counts agree, weighted by length, so a short "hi" that matches
+// can't carry a "vice" that doesn't; split or merged words are
+// compared as a whole.
+function windowScore(heard: string[], target: string[]): number {
+  if (heard.length !== target.length) {
+    return wordScore(heard.join(" "), target.join(" "));
+  }
+  let score = 0;
+  let weight = 0;
+  target.forEach((word, i) => {
+    score += word.length * wordScore(heard[i], word);
+    weight += word.length;
+  });
+  return score / weight;
+}
+
+// Best match for one phrase anywhere in the transcript. Windows one word
+// shorter or longer than the phrase catch split or merged words
+// ("hi voice" heard as "hivoice" or "hi the voice"). A window has to
+// start on the phrase's first sound, so "the voice of reason" or "i have
+// a voice" never come close.
+export function scoreWakePhrase(
+  transcript: string,
+  phrase: string
+): { heard: string; score: number } {
+  const words = normalizeText(transcript).split(" ").filter(Boolean);
+  const target = normalizeText(phrase).split(" ");
+  const targetLength = target.length;
+  const firstSound = phoneticKey(target[0]).charAt(0);
+
+  let best = { heard: "", score: 0 };
+  for (
+    let length = Math.max(1, targetLength - 1);
+    length <= targetLength + 1;
+    length++
+  ) {
+    for (let start = 0; start + length <= words.length; start++) {
+      const window = words.slice(start, start + length);
+      if (phoneticKey(window[0]).charAt(0) !== firstSound) continue;
+
+      let score = windowScore(window, target);
+      // A word slipped into the phrase: "hi the voice"
+      for (let skip = 1; length > targetLength && skip < length - 1; skip++) {
+        const rest = window.filter((_, i) => i !== skip);
+        score = Math.max(score, 0.95 * windowScore(rest, target));
+      }
+
+      if (score > best.score) best = { heard: window.join(" "), score };
+    }
+  }
+
+  return best;
+}
+
+export function detectWakeWord(
+  transcript: string,
+  phrases: string[],
+  threshold: number
+): WakeWordScore {
+  let best: WakeWordScore = {
+    phrase: phrases[0] ?? "",
+    heard: "",
+    score: 0,
+    detected: false,
+  };
+
+  for (const phrase of phrases) {
+    const { heard, score } = scoreWakePhrase(transcript, phrase);
+    if (score > best.score) {
+      best = { phrase, heard, score, detected: score >= threshold };
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,162 @@
+// src/lib/workflow.ts
+// ------------------------------------------------------
+// Task Workflow
+// Where a task stands: to do, in progress, blocked, done,
+// or a column the user added. "done" is the only status
+// that counts as completed.
+// ------------------------------------------------------
+
+import { normalizeText } from "@/lib/fuzzy";
+import { Task, TaskStatus } from "@/types/task";
+
+export interface WorkflowColumn {
+  id: TaskStatus;
+  title: string;
+  // Built-in columns can't be renamed or removed
+  builtIn?: boolean;
+}
+
+export const DEFAULT_COLUMNS: WorkflowColumn[] = [
+  { id: "todo", title: "To Do", builtIn: true },
+  { id: "in-progress", title: "In Progress", builtIn: true },
+  { id: "blocked", title: "Blocked", builtIn: true },
+  { id: "done", title: "Done", builtIn: true },
+];
+
+// Other ways of saying the built-in statuses
+const STATUS_SYNONYMS: Record<string, TaskStatus> = {
+  todo: "todo",
+  "to do": "todo",
+  "not started": "todo",
+  backlog: "todo",
+  "in progress": "in-progress",
+  doing: "in-progress",
+  started: "in-progress",
+  "working on": "in-progress",
+  blocked: "blocked",
+  stuck: "blocked",
+  "on hold": "blocked",
+  waiting: "blocked",
+  done: "done",
+  complete: "done",
+  completed: "done",
+  finished: "done",
+};
+
+// Tasks saved before statuses existed only have `completed`
+export function taskStatus(task: Task): TaskStatus {
+  if (task.completed) return "done";
+  return task.status && task.status !== "done" ? task.status : "todo";
+}
+
+// Moves a task to a column, completing it when that is "done" and
+// reopening it when it leaves "done"
+export function setTaskStatus(task: Task, status: TaskStatus): Task {
+  const now = new Date();
+  const completed = status === "done";
+  return {
+    ...task,
+    status,
+    completed,
+    completedAt:
+      completed === task.completed
+        ? task.completedAt
+        : completed
+        ? now
+        : undefined,
+    updatedAt: now,
+  };
+}
+
+// "in progress", "the review column", "stuck" -> a column id
+export function resolveColumn(
+  spoken: string,
+  columns: WorkflowColumn[]
+): WorkflowColumn | null {
+  const text = normalizeText(spoken)
+    .replace(/^the\s+/, "")
+    .replace(/\s+(?:column|list|status|lane)$/, "");
+  const synonym = STATUS_SYNONYMS[text];
+  return (
+    columns.find((column) => column.id === synonym) ??
+    columns.find(
+      (column) =>
+        normalizeText(column.title) === text ||
+        normalizeText(column.id) === text
+    ) ??
+    null
+  );
+}
+
+// Custom columns sit between "blocked" and "done"
+export class WorkflowBoard {
+  private custom: WorkflowColumn[] = [];
+
+  constructor() {
+    this.loadColumns();
+  }
+
+  public getColumns(): WorkflowColumn[] {
+    const done = DEFAULT_COLUMNS[DEFAULT_COLUMNS.length - 1];
+    return [...DEFAULT_COLUMNS.slice(0, -1), ...this.custom, done];
+  }
+
+  // Returns the new column, or the existing one with that title
+  public addColumn(title: string): WorkflowColumn | null {
+    const name = title.trim().replace(/\s+/g, " ");
+    if (!name) return null;
+    const existing = resolveColumn(name, this.getColumns());
+    if (existing) return existing;
+
+    const column = { id: this.uniqueId(name), title: name };
+    this.custom.push(column);
+    this.saveColumns();
+    return column;
+  }
+
+  public renameColumn(id: TaskStatus, title: string): void {
+    const name = title.trim().replace(/\s+/g, " ");
+    if (!name) return;
+    this.custom = this.custom.map((column) =>
+      column.id === id ? { ...column, title: name } : column
+    );
+    this.saveColumns();
+  }
+
+  // Pair with moveTasksOutOf so no task is left in a missing column
+  public removeColumn(id: TaskStatus): void {
+    this.custom = this.custom.filter((column) => column.id !== id);
+    this.saveColumns();
+  }
+
+  private uniqueId(title: string): TaskStatus {
+    const base =
+      normalizeText(title).replace(/\s+/g, "-") || `column-${Date.now()}`;
+    const taken = new Set(this.getColumns().map((column) => column.id));
+    let id = base;
+    for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+    return id;
+  }
+
+  private saveColumns(): void {
+    localStorage.setItem("voice-task-columns", JSON.stringify(this.custom));
+  }
+
+  private loadColumns(): void {
+    try {
+      const stored = localStorage.getItem("voice-task-columns");
+      if (stored) this.custom = JSON.parse(stored);
+    } catch (error) {
+      console.error("Error loading board columns:", error);
+    }
+  }
+}
+
+// Tasks in a removed column go back to "todo"
+export function moveTasksOutOf(tasks: Task[], status: TaskStatus): Task[] {
+  return tasks.map((task) =>
+    task.status === status && !task.completed
+      ? setTaskStatus(task, "todo")
+      : task
+  );
+}
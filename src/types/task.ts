@@ -2,25 +2,173 @@ export interface Task {
   id: string;
   title: string;
   description?: string;
+  // Kept in step with status: a task is completed exactly when its
+  // status is "done"
   completed: boolean;
+  status?: TaskStatus;
   priority: "low" | "medium" | "high";
+  // Normalized tag names (see lib/tags)
+  tags?: string[];
+  // Before tags: one free-text category. reviveTask folds it into tags.
   category?: string;
   createdAt: Date;
   updatedAt: Date;
+  // Local midnight of the due day; dueTime ("15:30", local) makes it a
+  // timed deadline instead of an all-day one (see lib/deadlines)
   dueDate?: Date;
+  dueTime?: string;
+  completedAt?: Date;
+  recurrence?: RecurrenceRule;
+  // Occurrences of one recurring task share a series id; occurrence
+  // counts them from 1
+  seriesId?: string;
+  occurrence?: number;
+  // Checklist of steps; with completeWithSubtasks the task is done
+  // exactly when all of them are
+  subtasks?: Subtask[];
+  completeWithSubtasks?: boolean;
+  // Ids of tasks that have to be completed before this one can start
+  // (see lib/dependencies)
+  blockedBy?: string[];
+  estimatedMinutes?: number;
+  // Tracked work; at most one entry, the running timer, has no end
+  timeEntries?: TimeEntry[];
+  // The audio itself is in IndexedDB under the task's id (see
+  // lib/voice-memos)
+  voiceMemo?: VoiceMemoInfo;
+  // Append-only history, oldest first (see lib/activity)
+  activity?: ActivityEntry[];
+  // Set while the task is in the trash or the archive (see lib/trash)
+  deletedAt?: Date;
+  archivedAt?: Date;
+  // Place in the list, lowest first (see lib/ordering)
+  order?: number;
+}
+
+// A board column: one of the built-in statuses or the id of a column
+// the user added (see lib/workflow)
+export type TaskStatus =
+  | "todo"
+  | "in-progress"
+  | "blocked"
+  | "done"
+  | (string & {});
+
+export interface Subtask {
+  id: string;
+  title: string;
+  completed: boolean;
+}
+
+export interface TimeEntry {
+  id: string;
+  start: Date;
+  end?: Date;
+}
+
+// Where a change came from: spoken, typed or clicked in the app,
+// brought in from elsewhere, or done by the app itself (recurrence,
+// unblocking, reminders)
+export type ActivitySource = "voice" | "form" | "import" | "system";
+
+export interface ActivityEntry {
+  id: string;
+  at: Date;
+  kind:
+    | "created"
+    | "changed"
+    | "completed"
+    | "reopened"
+    | "reminder"
+    | "deleted"
+    | "restored"
+    | "archived"
+    | "unarchived";
+  source: ActivitySource;
+  // For "changed": the field and its values as they read then
+  field?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface VoiceMemoInfo {
+  mimeType: string;
+  durationMs: number;
+  recordedAt: Date;
+}
+
+// A subset of iCalendar RRULE (RFC 5545)
+export interface RecurrenceRule {
+  frequency: "daily" | "weekly" | "monthly" | "yearly";
+  // Every N days/weeks/months/years
+  interval: number;
+  // Weekly: days of the week, 0 = Sunday (BYDAY=MO,WE)
+  byWeekday?: number[];
+  // Monthly: day of the month, -1 = the last day (BYMONTHDAY)
+  byMonthDay?: number;
+  // Monthly: the nth weekday, nth -1 = the last one (BYDAY=2TU)
+  byNthWeekday?: { weekday: number; nth: number };
+  // Optional end: a last date (UNTIL) or a number of occurrences (COUNT)
+  until?: Date;
+  count?: number;
 }
 
 export interface TaskFormData {
   title: string;
   description?: string;
   priority: "low" | "medium" | "high";
+  tags?: string[];
+  // A single tag as typed or spoken, added to the tags
   category?: string;
+  // "2025-10-24" and "15:30" on the local calendar and clock; no time
+  // is an all-day deadline
   dueDate?: string;
+  dueTime?: string;
+  recurrence?: RecurrenceRule;
+  subtasks?: Subtask[];
+  completeWithSubtasks?: boolean;
+  blockedBy?: string[];
+  estimatedMinutes?: number;
+}
+
+// What the task list currently shows; shared by the list UI and voice
+export interface TaskListView {
+  filter: "all" | "active" | "completed";
+  priority?: "low" | "medium" | "high";
+  // Tasks must carry every one of these
+  tags?: string[];
+  search: string;
+}
+
+// A spoken question about the tasks, see lib/task-queries
+export interface TaskQuery {
+  // "list" reads the tasks out, "count" only says how many there are
+  kind: "list" | "count";
+  status?: "active" | "completed";
+  priority?: Task["priority"];
+  category?: string;
+  due?: "today" | "tomorrow" | "thisWeek" | "overdue";
+  completed?: "today" | "yesterday" | "thisWeek";
+  // "what am i working on", "what's blocked"
+  workflow?: "in-progress" | "blocked";
+  // "what can i work on now": open tasks with no open blockers
+  ready?: boolean;
 }
 
 export interface TaskFilters {
   completed?: boolean;
+  // A board column, e.g. "blocked"
+  status?: TaskStatus;
   priority?: "low" | "medium" | "high";
+  // A single tag; tasks must carry it
   category?: string;
+  tags?: string[];
   search?: string;
+  // Date ranges include the start and exclude the end
+  dueFrom?: Date;
+  dueBefore?: Date;
+  // Open tasks whose deadline had passed by then
+  overdueAt?: Date;
+  completedFrom?: Date;
+  completedBefore?: Date;
 }